@@ -89,6 +89,7 @@ export default defineConfig({
 						{ label: 'Sitemap', autogenerate: { directory: 'configuration/sitemap' } },
 						{ label: 'Graph', autogenerate: { directory: 'configuration/graph' } },
 						{ label: 'Backlinks', autogenerate: { directory: 'configuration/backlinks' } },
+						{ label: 'Reports', link: '/configuration/reports' },
 						{ label: 'CSS', autogenerate: { directory: 'configuration/css' } },
 					]
 				},
@@ -111,6 +111,7 @@ export const zoomedOutConfig = overrideConfig(frozenConfig, {
 export const nonInteractiveConfig = overrideConfig(frozenConfig, {
 	graphConfig: {
 		enableHover: false,
+		enableKeyboard: false,
 	}
 });
 
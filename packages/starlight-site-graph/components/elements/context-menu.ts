@@ -1,6 +1,6 @@
 import { parseSVGSafely } from '../security';
 
-interface MenuItem {
+export interface MenuItem {
 	group?: string;
 	text: string;
 	icon?: string;
@@ -18,7 +18,7 @@ function removeMenu() {
 
 window.addEventListener('click', removeMenu);
 
-export function showContextMenu(e: MouseEvent, items: MenuItem[]) {
+export function showContextMenu(e: Pick<MouseEvent, 'clientX' | 'clientY' | 'preventDefault'>, items: MenuItem[]) {
 	e.preventDefault();
 	removeMenu();
 
@@ -1,6 +1,10 @@
 import { onClickOutside } from '../util';
 
-export function showPopupMenu(container: HTMLElement, contents: HTMLElement[]) {
+/**
+ * Show a popup menu in the container, which is closed when clicking outside of it
+ * @returns A function that closes the popup menu
+ */
+export function showPopupMenu(container: HTMLElement, contents: HTMLElement[], onClose?: () => void) {
 	const popupMenu = document.createElement('div');
 	popupMenu.className = 'slsg-popup-menu';
 
@@ -13,9 +17,18 @@ export function showPopupMenu(container: HTMLElement, contents: HTMLElement[]) {
 	popupMenu.appendChild(popupMenuContent);
 	container.appendChild(popupMenu);
 
+	let removeListener: (() => void) | undefined;
+	const close = () => {
+		removeListener?.();
+		if (container.contains(popupMenu)) {
+			container.removeChild(popupMenu);
+			onClose?.();
+		}
+	};
+
 	setTimeout(() => {
-		onClickOutside(popupMenu, () => {
-			if (container.contains(popupMenu)) container.removeChild(popupMenu);
-		});
+		removeListener = onClickOutside(popupMenu, close);
 	});
+
+	return close;
 }
@@ -0,0 +1,76 @@
+import type { LinkData, NodeData } from './types';
+import type { GraphComponent } from './graph-component';
+import { ensureLeadingSlash } from '../../sitemap/util';
+
+/**
+ * Get a short spoken description of a node, announced when the node receives keyboard focus
+ */
+export function describeNode(context: GraphComponent, node: NodeData): string {
+	const kind =
+		node.type === 'tag' ? 'tag'
+		: node.type === 'folder' ? 'folder'
+		: node.type === 'heading' ? 'heading'
+		: node.external ? 'external page'
+		: !node.exists ? 'unresolved page'
+		: node.id === context.currentPage ? 'current page'
+		: 'page';
+	const connections = node.adjacent.size === 1 ? '1 connection' : `${node.adjacent.size} connections`;
+	return `${node.text || node.id}, ${kind}, ${connections}`;
+}
+
+function createNodeReference(context: GraphComponent, node: NodeData): HTMLElement {
+	// EXPL: Only nodes that can be followed in the graph are exposed as links
+	if (!context.simulator.isClickable(node) && node.id !== context.currentPage) {
+		const text = document.createElement('span');
+		text.innerText = node.text || node.id;
+		return text;
+	}
+
+	const link = document.createElement('a');
+	link.href = node.external ? node.id : ensureLeadingSlash(node.id);
+	link.innerText = node.text || node.id;
+	if (node.id === context.currentPage) link.ariaCurrent = 'page';
+	// EXPL: The list mirrors the canvas, so its links should not add extra stops when tabbing through the page
+	link.tabIndex = -1;
+	return link;
+}
+
+/**
+ * Mirror the displayed nodes and their outgoing links as a nested list, which is hidden visually
+ * but read by assistive technologies in place of the canvas
+ */
+export function renderAccessibleGraph(context: GraphComponent, nodes: NodeData[], links: LinkData[]) {
+	const outgoing = new Map<NodeData, NodeData[]>(nodes.map(node => [node, []]));
+	for (const link of links) {
+		outgoing.get(link.source)?.push(link.target);
+	}
+
+	const list = document.createElement('ul');
+	list.ariaLabel = 'Pages shown in the graph';
+	for (const node of nodes.toSorted((a, b) => (a.text || a.id).localeCompare(b.text || b.id))) {
+		const item = document.createElement('li');
+		item.appendChild(createNodeReference(context, node));
+
+		const targets = outgoing.get(node)!;
+		if (targets.length) {
+			const targetList = document.createElement('ul');
+			targetList.ariaLabel = `Links from ${node.text || node.id}`;
+			for (const target of targets) {
+				const targetItem = document.createElement('li');
+				targetItem.appendChild(createNodeReference(context, target));
+				targetList.appendChild(targetItem);
+			}
+			item.appendChild(targetList);
+		}
+		list.appendChild(item);
+	}
+
+	context.accessibleContainer.replaceChildren(list);
+}
+
+/**
+ * Announce a message through the live region of the graph
+ */
+export function announce(context: GraphComponent, message: string) {
+	context.liveRegion.innerText = message;
+}
@@ -1,6 +1,6 @@
 import { icons } from '../elements/icons';
 import { showContextMenu } from '../elements/context-menu';
-import { createValueSlider } from '../util';
+import { createToggle, createValueSlider } from '../util';
 import { showPopupMenu } from '../elements/popup-menu';
 // prettier-ignore
 import {
@@ -10,8 +10,67 @@ import {
 	COLLIDER_PADDING_SLIDER_MIN, COLLIDER_PADDING_SLIDER_MAX, COLLIDER_PADDING_SLIDER_STEP,
 	LINK_DISTANCE_SLIDER_MIN, LINK_DISTANCE_SLIDER_MAX, LINK_DISTANCE_SLIDER_STEP,
 	ALPHA_DECAY_SLIDER_MIN, ALPHA_DECAY_SLIDER_MAX, ALPHA_DECAY_SLIDER_STEP,
+	SEARCH_MAX_RESULTS,
+	EXPORT_PNG_RESOLUTIONS,
 } from './constants';
+import { searchNodes } from './search';
+import { getFilterOptions, NODE_KINDS, type GraphFilter } from './filter';
+import { exportPNG, exportSVG } from './export';
 import type { GraphComponent } from './graph-component';
+import type { NodeData } from './types';
+import type { GraphLayout, LinkType } from '../../config';
+
+const LAYOUTS = [
+	{ layout: 'force', text: 'Force Layout', icon: icons.layoutForce },
+	{ layout: 'radial', text: 'Radial Layout', icon: icons.layoutRadial },
+	{ layout: 'tree', text: 'Tree Layout', icon: icons.layoutTree },
+	{ layout: 'circular', text: 'Circular Layout', icon: icons.layoutCircular },
+] as const satisfies { layout: GraphLayout, text: string, icon: string }[];
+
+const LINK_TYPES = [
+	{ type: 'body', text: 'Content Links' },
+	{ type: 'frontmatter', text: 'Frontmatter Links' },
+	{ type: 'tag', text: 'Tag Links' },
+	{ type: 'external', text: 'External Links' },
+	{ type: 'hierarchy', text: 'Hierarchy Links' },
+] as const satisfies { type: LinkType, text: string }[];
+
+/**
+ * Create a titled group of toggles, which each show the values of a filter field when checked
+ * @remarks If `inverted`, a toggle is checked when its value is part of the field instead
+ */
+function createFilterGroup<T extends string>(
+	context: GraphComponent,
+	title: string,
+	field: keyof GraphFilter,
+	options: readonly { value: T, text: string }[],
+	inverted: boolean = false,
+) {
+	const group = document.createElement('div');
+	group.className = 'slsg-filter-group';
+
+	const titleElement = document.createElement('span');
+	titleElement.className = 'slsg-filter-group-title';
+	titleElement.innerText = title;
+	group.appendChild(titleElement);
+
+	for (const { value, text } of options) {
+		group.appendChild(createToggle(text, (context.filter[field] as string[]).includes(value) === inverted, (checked) => {
+			const values = new Set<string>(context.filter[field]);
+			checked !== inverted ? values.delete(value) : values.add(value);
+			context.setFilter({ ...context.filter, [field]: [...values] });
+		}));
+	}
+
+	return group;
+}
+
+function createFilterNote(text: string) {
+	const note = document.createElement('span');
+	note.className = 'slsg-filter-note';
+	note.innerText = text;
+	return note;
+}
 
 export function renderActionContainer(context: GraphComponent) {
 	context.actionContainer.replaceChildren();
@@ -75,6 +134,14 @@ export function renderActionContainer(context: GraphComponent) {
 				context.simulator.resetZoom();
 				e.stopPropagation();
 			};
+		} else if (action === 'reset-layout') {
+			actionElement.innerHTML = icons.pinOff;
+			actionElement.title = 'Reset Layout';
+			actionElement.ariaLabel = 'Reset Layout';
+			actionElement.onclick = e => {
+				context.simulator.unpinAll();
+				e.stopPropagation();
+			};
 		} else if (action === 'render-arrows') {
 			actionElement.innerHTML = context.config.renderArrows ? icons.arrow : icons.line;
 			actionElement.title = "Toggle Arrows";
@@ -91,6 +158,126 @@ export function renderActionContainer(context: GraphComponent) {
 					{ text: 'Render Lines', icon: icons.line, onClick: () => (context.config.renderArrows = false) },
 				]);
 			};
+		} else if (action === 'search') {
+			actionElement.innerHTML = icons.search;
+			actionElement.title = 'Search Graph';
+			actionElement.ariaLabel = 'Search Graph';
+			actionElement.onclick = e => {
+				const input = document.createElement('input');
+				input.type = 'search';
+				input.className = 'slsg-search-input';
+				input.placeholder = 'Search pages...';
+				input.ariaLabel = 'Search pages';
+
+				const results = document.createElement('div');
+				results.className = 'slsg-search-results';
+
+				let matches: NodeData[] = [];
+				input.oninput = () => {
+					matches = searchNodes(context.simulator.nodes, input.value);
+					context.simulator.highlightNodes(matches);
+					results.replaceChildren(...matches.slice(0, SEARCH_MAX_RESULTS).map(node => {
+						const result = document.createElement('button');
+						result.className = 'slsg-search-result';
+						result.innerText = node.text || node.id;
+						result.title = node.id;
+						result.onclick = () => context.simulator.focusNode(node);
+						return result;
+					}));
+				};
+				// EXPL: Prevents typing in the search box from triggering the keyboard shortcuts of the graph
+				input.onkeyup = event => event.stopPropagation();
+				input.onkeydown = event => {
+					if (event.key === 'Enter' && matches[0]) {
+						context.simulator.focusNode(matches[0]);
+					} else if (event.key === 'Escape') {
+						closeSearch();
+					}
+				};
+
+				const closeSearch = showPopupMenu(context.actionContainer, [input, results], () => {
+					context.simulator.highlightNodes([]);
+				});
+				input.focus();
+				e.stopPropagation();
+			};
+		} else if (action === 'filter') {
+			actionElement.innerHTML = icons.filter;
+			actionElement.title = 'Filter Nodes';
+			actionElement.ariaLabel = 'Filter Nodes';
+			actionElement.onclick = e => {
+				const graphData = context.getGraphData();
+				const { tags, sections } = getFilterOptions(graphData);
+				// EXPL: A sitemap shard only contains the pages near the current page, the full graph data is loaded
+				//   so that the tags and sections of all pages are listed the next time the menu is opened
+				const partial = context.sitemapDepth !== undefined;
+				if (partial) context.requestSitemap(false);
+				showPopupMenu(context.actionContainer, [
+					...(partial ? [createFilterNote('Only the sections and tags of nearby pages are listed, as the other pages are still being loaded')] : []),
+					createFilterGroup(context, 'Node Kinds', 'hiddenKinds', NODE_KINDS.map(({ kind, text }) => ({ value: kind, text }))),
+					...(sections.length ? [createFilterGroup(context, 'Sections', 'hiddenSections', sections.map(section => ({ value: section, text: section })))] : []),
+					...(tags.length ? [createFilterGroup(context, 'Tags', 'hiddenTags', tags.map(tag => ({ value: tag, text: tag })))] : []),
+					...(context.filter.onlyTags.length ? [createFilterGroup(context, 'Only Tags', 'onlyTags', context.filter.onlyTags.map(tag => ({ value: tag, text: tag })), true)] : []),
+					...(context.filter.hiddenNodes.length ? [createFilterGroup(context, 'Hidden Nodes', 'hiddenNodes', context.filter.hiddenNodes.map(id => ({ value: id, text: graphData.nodes[id]?.title || id })))] : []),
+				]);
+				e.stopPropagation();
+			};
+		} else if (action === 'export') {
+			actionElement.innerHTML = icons.download;
+			actionElement.title = 'Export Graph';
+			actionElement.ariaLabel = 'Export Graph';
+			actionElement.onclick = e => {
+				showContextMenu(e, [
+					{ text: 'Export as SVG', icon: icons.download, onClick: () => exportSVG(context) },
+					...EXPORT_PNG_RESOLUTIONS.map(resolution => ({
+						group: 'png',
+						text: `Export as PNG (${resolution}x)`,
+						icon: icons.image,
+						onClick: () => exportPNG(context, resolution),
+					})),
+				]);
+				e.stopPropagation();
+			};
+		} else if (action === 'link-types') {
+			actionElement.innerHTML = icons.linkTypes;
+			actionElement.title = 'Filter Link Types';
+			actionElement.ariaLabel = 'Filter Link Types';
+			actionElement.onclick = e => {
+				showPopupMenu(context.actionContainer, LINK_TYPES.map(({ type, text }) =>
+					createToggle(text, context.config.renderLinkTypes.includes(type), (value) => {
+						context.config.renderLinkTypes = value
+							? [...context.config.renderLinkTypes, type]
+							: context.config.renderLinkTypes.filter(linkType => linkType !== type);
+						context.setup();
+					}),
+				));
+				e.stopPropagation();
+			};
+		} else if (action === 'layout') {
+			const index = LAYOUTS.findIndex(({ layout }) => layout === context.config.layout);
+			actionElement.innerHTML = LAYOUTS[index]!.icon;
+			actionElement.title = 'Change Layout';
+			actionElement.ariaLabel = 'Change Layout';
+			actionElement.onclick = e => {
+				context.config.layout = LAYOUTS[(index + 1) % LAYOUTS.length]!.layout;
+				context.full_refresh();
+				e.stopPropagation();
+			};
+			actionElement.oncontextmenu = e => {
+				showContextMenu(
+					e,
+					LAYOUTS.map(({ layout, text, icon }) => ({
+						text,
+						icon,
+						onClick: () => {
+							if (context.config.layout !== layout) {
+								context.config.layout = layout;
+								context.full_refresh();
+							}
+						},
+					})),
+				);
+			};
 		} else if (action === "settings") {
 			actionElement.innerHTML = icons.settings;
 			actionElement.title = 'Show Settings';
@@ -152,6 +339,52 @@ export function renderActionContainer(context: GraphComponent) {
 					}},
 				]);
 			};
+		} else if (action === 'render-headings') {
+			actionElement.innerHTML = context.config.renderHeadings ? icons.heading : icons.headingOff;
+			actionElement.title = 'Toggle Headings';
+			actionElement.ariaLabel = 'Toggle Headings';
+			actionElement.onclick = e => {
+				context.config.renderHeadings = !context.config.renderHeadings;
+				context.full_refresh();
+				e.stopPropagation();
+			};
+			actionElement.oncontextmenu = e => {
+				showContextMenu(e, [
+					{ text: 'Show Headings', icon: icons.heading, onClick: () => {
+						context.config.renderHeadings = true;
+						context.full_refresh();
+						e.stopPropagation();
+					}},
+					{ text: 'Collapse Headings', icon: icons.headingOff, onClick: () => {
+						context.config.renderHeadings = false;
+						context.full_refresh();
+						e.stopPropagation();
+					}},
+				]);
+			};
+		} else if (action === 'render-hierarchy') {
+			actionElement.innerHTML = context.config.renderHierarchy ? icons.hierarchy : icons.hierarchyOff;
+			actionElement.title = 'Toggle Hierarchy';
+			actionElement.ariaLabel = 'Toggle Hierarchy';
+			actionElement.onclick = e => {
+				context.config.renderHierarchy = !context.config.renderHierarchy;
+				context.full_refresh();
+				e.stopPropagation();
+			};
+			actionElement.oncontextmenu = e => {
+				showContextMenu(e, [
+					{ text: 'Show Hierarchy', icon: icons.hierarchy, onClick: () => {
+						context.config.renderHierarchy = true;
+						context.full_refresh();
+						e.stopPropagation();
+					}},
+					{ text: 'Hide Hierarchy', icon: icons.hierarchyOff, onClick: () => {
+						context.config.renderHierarchy = false;
+						context.full_refresh();
+						e.stopPropagation();
+					}},
+				]);
+			};
 		} else if (action === 'render-unresolved') {
 			actionElement.innerHTML = context.config.renderUnresolved ? icons.resolved : icons.unresolved;
 			actionElement.title = 'Toggle Resolved Pages';
@@ -1,5 +1,14 @@
 export const MAX_DEPTH = 6;
 
+export const SITEMAP_UPDATE_EVENT = 'starlight-site-graph:sitemap-update';
+export const SITEMAP_INCOMPLETE_EVENT = 'starlight-site-graph:sitemap-incomplete';
+export const NODE_CONTEXT_MENU_EVENT = 'starlight-site-graph:node-context-menu';
+
+// EXPL: Nodes starting from a precomputed layout only need to settle, not to untangle
+export const PRECOMPUTED_LAYOUT_ALPHA = 0.1;
+// EXPL: Strength with which nodes are pulled towards their position in the radial, tree and circular layouts
+export const LAYOUT_FORCE = 0.5;
+
 export const NODE_DEFAULT_Z_INDEX = 3;
 export const NODE_HOVER_Z_INDEX = 10;
 export const NODE_MUTED_Z_INDEX = 1;
@@ -25,6 +34,19 @@ export const DEFAULT_ARROW_SCALE = 1.5;
 
 export const STAR_LINE_DEPTH = 0.5;
 
+export const FOCUS_RING_Z_INDEX = 15;
+export const FOCUS_RING_WIDTH = 2;
+export const FOCUS_RING_OFFSET = 4;
+export const KEYBOARD_ZOOM_FACTOR = 1.25;
+
+// EXPL: Resolutions offered for PNG exports, relative to the size of the graph on screen
+export const EXPORT_PNG_RESOLUTIONS = [1, 2, 4];
+
+export const PREVIEW_OFFSET = 8;
+
+export const LONG_PRESS_DURATION = 500;
+export const TAP_MOVE_TOLERANCE = 10;
+
 export const CHARGE_FORCE_SLIDER_MIN = 0;
 export const CHARGE_FORCE_SLIDER_MAX = 500;
 export const CHARGE_FORCE_SLIDER_STEP = 1;
@@ -45,16 +67,20 @@ export const ALPHA_DECAY_SLIDER_MIN = 0;
 export const ALPHA_DECAY_SLIDER_MAX = 0.3;
 export const ALPHA_DECAY_SLIDER_STEP = 0.001;
 
+export const SEARCH_MAX_RESULTS = 8;
+
 export const REQUIRE_SIMULATION_UPDATE = [
 	'colliderPadding',
 	'repelForce',
 	'centerForce',
 	'linkDistance',
+	'linkWeightScale',
 	'alphaDecay'
 ];
 
 export const REQUIRE_NOTHING = [
 	'followLink',
+	'renderPreview',
 ]
 export const REQUIRE_RENDER_UPDATE = [
 	'renderArrows',
@@ -91,6 +117,9 @@ export const REQUIRE_FULL_REFRESH = [
 	'renderLabels',
 	'renderUnresolved',
 	'renderExternal',
+	'renderHeadings',
+	'renderHierarchy',
+	'renderLinkTypes',
 
 	'labelFontSize',
 
@@ -99,6 +128,7 @@ export const REQUIRE_FULL_REFRESH = [
 	'enablePan',
 	'enableHover',
 	'enableClick',
+	'enableKeyboard',
 
 	'depth',
 	'depthDirection',
@@ -111,7 +141,11 @@ export const REQUIRE_FULL_REFRESH = [
 	'nodeCurrentStyle',
 	'nodeUnresolvedStyle',
 	'nodeExternalStyle',
+	'nodeHeadingStyle',
+	'nodeOrphanStyle',
+	'nodeFolderStyle',
 	'tagDefaultStyle',
 
-	'tagStyles'
+	'tagStyles',
+	'linkStyles'
 ]
@@ -0,0 +1,145 @@
+import type { LinkData, NodeData } from './types';
+import type { GraphComponent } from './graph-component';
+
+import { getShapeVertices } from './geometry';
+import { getLinkWeightFactor } from './forces';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+function escapeXML(text: string): string {
+	return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function formatPoints(points: [number, number][]): string {
+	return points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+}
+
+/**
+ * Get the color of a color key (e.g. `nodeColor`) in the current theme, as found by `getGraphColors`
+ */
+function getColor(context: GraphComponent, key: string): string {
+	return context.colors[key] ?? key;
+}
+
+/**
+ * Create the outline of a node centered at the origin, following the shapes drawn by `GraphRenderer.drawNode`
+ */
+function createShape(node: NodeData, size: number, attributes: string): string {
+	if (node.shape === 'circle') {
+		return `<circle r="${round(size)}" ${attributes}/>`;
+	}
+	return `<polygon points="${formatPoints(getShapeVertices(node.shape!, size, node.shapePoints!))}" ${attributes}/>`;
+}
+
+/**
+ * Create the SVG elements of a node, mirroring `GraphRenderer.drawNodeStroke` and `GraphRenderer.drawNodeShape`
+ */
+function createNode(context: GraphComponent, node: NodeData): string {
+	const shapeColor = getColor(context, node.shapeColor!);
+	const elements: string[] = [];
+
+	if (node.strokeWidth && node.strokeColor) {
+		const strokeColor = node.strokeColor === 'inherit' ? shapeColor : getColor(context, node.strokeColor);
+		const outline = node.strokeCornerRadius
+			? ` stroke="${strokeColor}" stroke-width="${round(node.strokeCornerRadius)}" stroke-linejoin="${node.cornerType}"`
+			: '';
+		elements.push(createShape(node, node.fullRadius! - node.strokeCornerRadius! / 2, `fill="${strokeColor}"${outline}`));
+	}
+
+	const outline = node.shapeCornerRadius
+		? ` stroke="${shapeColor}" stroke-width="${round(node.shapeCornerRadius)}" stroke-linejoin="${node.cornerType}"`
+		: '';
+	elements.push(createShape(node, node.computedSize! - node.shapeCornerRadius!, `fill="${shapeColor}"${outline}`));
+
+	const rotation = node.shapeRotation ? ` rotate(${round(node.shapeRotation * 180 / Math.PI)})` : '';
+	return `<g transform="translate(${round(node.x!)},${round(node.y!)})${rotation}">${elements.join('')}</g>`;
+}
+
+/**
+ * Create the SVG elements of a link and its arrow head, mirroring `GraphRenderer.drawLink`
+ */
+function createLink(context: GraphComponent, link: LinkData, zoom: number): string {
+	const renderer = context.renderer;
+	const config = context.config;
+	const incAngle = Math.atan2(link.target.y! - link.source.y!, link.target.x! - link.source.x!);
+	const outAngle = Math.atan2(link.source.y! - link.target.y!, link.source.x! - link.target.x!);
+	const [xStart, yStart] = renderer.getLinkOffset(link.source, outAngle);
+	const [xEnd, yEnd] = renderer.getLinkOffset(link.target, incAngle);
+
+	const linkZoomLevel = config.scaleLinks ? zoom : 1;
+	const width = (link.width ?? config.linkWidth) * getLinkWeightFactor(link.weight, config.linkWeightScale);
+	const color = getColor(context, link.color ?? 'linkColor');
+	const dashPattern: number[] = link.dashPattern ?? [];
+	const dashArray = dashPattern.some(length => length > 0)
+		? ` stroke-dasharray="${dashPattern.map(length => round(length / linkZoomLevel)).join(' ')}"`
+		: '';
+
+	let element = `<line x1="${round(xStart)}" y1="${round(yStart)}" x2="${round(xEnd)}" y2="${round(yEnd)}" ` +
+		`stroke="${color}" stroke-width="${round(width / linkZoomLevel)}"${dashArray}/>`;
+
+	if (config.renderArrows && link.renderArrow !== false && context.simulator.zoomTransform.k > config.minZoomArrows) {
+		element += `<polygon points="${formatPoints(renderer.getArrowVertices(xEnd, yEnd, width, incAngle))}" fill="${color}"/>`;
+	}
+	return element;
+}
+
+/**
+ * Create the label of a node, mirroring `GraphRenderer.updateLabel` for a node that is not hovered
+ */
+function createLabel(context: GraphComponent, node: NodeData, opacity: number): string {
+	const y = node.y! + node.fullRadius! + context.config.labelOffset;
+	return `<text x="${round(node.x!)}" y="${round(y)}" fill="${getColor(context, 'labelColor')}" opacity="${round(opacity)}" ` +
+		`font-size="${context.config.labelFontSize}" font-family="Arial, sans-serif" text-anchor="middle" dominant-baseline="central">` +
+		`${escapeXML(node.text || node.id)}</text>`;
+}
+
+/**
+ * Create a vector image of the current view of the graph, with all nodes in their default (not hovered) style
+ */
+export function createGraphSVG(context: GraphComponent): string {
+	const width = context.graphContainer.clientWidth, height = context.graphContainer.clientHeight;
+	const transform = context.simulator.transform;
+	const labelOpacity = Math.min(context.simulator.getCurrentLabelOpacity(), 1);
+
+	const links = context.simulator.links.map(link => createLink(context, link, transform.k));
+	const nodes = context.simulator.nodes.map(node => createNode(context, node));
+	const labels = context.config.renderLabels && labelOpacity > 0
+		? context.simulator.nodes.map(node => createLabel(context, node, labelOpacity))
+		: [];
+
+	return `<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+		`<rect width="100%" height="100%" fill="${getColor(context, 'backgroundColor')}"/>` +
+		`<g transform="translate(${round(transform.x)},${round(transform.y)}) scale(${transform.k})" stroke-linecap="butt">` +
+		`<g>${links.join('')}</g><g>${nodes.join('')}</g><g>${labels.join('')}</g>` +
+		`</g></svg>`;
+}
+
+function getExportName(context: GraphComponent): string {
+	return 'graph-' + (context.currentPage.split(/\W+/).filter(Boolean).join('-') || 'index');
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+export function exportSVG(context: GraphComponent) {
+	downloadBlob(new Blob([createGraphSVG(context)], { type: 'image/svg+xml' }), getExportName(context) + '.svg');
+}
+
+export async function exportPNG(context: GraphComponent, resolution: number) {
+	try {
+		const image = await context.renderer.toPNG(resolution, getColor(context, 'backgroundColor'));
+		downloadBlob(image, `${getExportName(context)}@${resolution}x.png`);
+	} catch (e) {
+		console.error('[STARLIGHT-SITE-GRAPH] ' + (e instanceof Error ? e.message : e));
+	}
+}
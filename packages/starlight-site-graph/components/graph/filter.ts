@@ -0,0 +1,100 @@
+import type { PreparedGraphData, PreparedNode } from '../../sitemap/graph-data';
+import { trimSlashes } from '../../sitemap/util';
+
+const FILTER_STORAGE_KEY = 'starlight-site-graph--graph-filter';
+const BASE_PATH = trimSlashes(import.meta.env.BASE_URL);
+
+/**
+ * Kinds of nodes that can be hidden as a whole
+ * - `external`: Nodes representing external pages
+ * - `unresolved`: Nodes representing pages that do not exist
+ * - `visited`: Nodes representing pages the user has already visited
+ * - `tag`: Nodes representing tags, only exist if tags are rendered as nodes
+ */
+export type NodeKind = 'external' | 'unresolved' | 'visited' | 'tag';
+
+export type GraphFilter = {
+	/** Pages with any of these tags are hidden */
+	hiddenTags: string[];
+	/** Pages within any of these top-level sections are hidden */
+	hiddenSections: string[];
+	hiddenKinds: NodeKind[];
+	/** Individual nodes (pages or tags) hidden through their context menu */
+	hiddenNodes: string[];
+	/** If not empty, only pages with any of these tags are shown */
+	onlyTags: string[];
+};
+
+export const NODE_KINDS = [
+	{ kind: 'external', text: 'External Pages' },
+	{ kind: 'unresolved', text: 'Unresolved Pages' },
+	{ kind: 'visited', text: 'Visited Pages' },
+	{ kind: 'tag', text: 'Tags' },
+] as const satisfies { kind: NodeKind, text: string }[];
+
+/**
+ * Get the filter chosen by the user, which is shared by all graphs of the site
+ */
+export function loadGraphFilter(): GraphFilter {
+	try {
+		const filter = JSON.parse(localStorage.getItem(FILTER_STORAGE_KEY) ?? '{}');
+		return {
+			hiddenTags: filter.hiddenTags ?? [],
+			hiddenSections: filter.hiddenSections ?? [],
+			hiddenKinds: filter.hiddenKinds ?? [],
+			hiddenNodes: filter.hiddenNodes ?? [],
+			onlyTags: filter.onlyTags ?? [],
+		};
+	} catch (e) {
+		console.error('[STARLIGHT-SITE-GRAPH] ' + (e instanceof Error ? e.message : e));
+		return { hiddenTags: [], hiddenSections: [], hiddenKinds: [], hiddenNodes: [], onlyTags: [] };
+	}
+}
+
+export function saveGraphFilter(filter: GraphFilter) {
+	localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(filter));
+}
+
+/**
+ * Get the top-level section a node belongs to, external nodes and the root page do not belong to a section
+ */
+export function getSection(id: string, node: PreparedNode): string | undefined {
+	if (node.external) return undefined;
+	let path = trimSlashes(id.split('#')[0]!);
+	// EXPL: Pages are identified by their path including the `base` of the site, which is not a section of its own
+	if (BASE_PATH && (path === BASE_PATH || path.startsWith(BASE_PATH + '/'))) {
+		path = path.slice(BASE_PATH.length);
+	}
+	return path.split('/').find(Boolean);
+}
+
+/**
+ * Get all tags and sections of the graph data that can be filtered on, sorted alphabetically
+ */
+export function getFilterOptions(graphData: PreparedGraphData): { tags: string[], sections: string[] } {
+	const tags = new Set<string>();
+	const sections = new Set<string>();
+	for (const [id, node] of Object.entries(graphData.nodes)) {
+		for (const tag of node.tags ?? []) tags.add(tag);
+		const section = getSection(id, node);
+		if (section) sections.add(section);
+	}
+	return { tags: [...tags].sort(), sections: [...sections].sort() };
+}
+
+/**
+ * Check whether a node is hidden by the filter
+ * @remarks Tag nodes are not part of the graph data, and are hidden separately by the `tag` kind or by `hiddenNodes`
+ */
+export function isFiltered(filter: GraphFilter, id: string, node: PreparedNode, visited: boolean): boolean {
+	const section = getSection(id, node);
+	return (
+		(node.external && filter.hiddenKinds.includes('external')) ||
+		(!node.exists && filter.hiddenKinds.includes('unresolved')) ||
+		(visited && filter.hiddenKinds.includes('visited')) ||
+		(section !== undefined && filter.hiddenSections.includes(section)) ||
+		filter.hiddenNodes.includes(id) ||
+		(node.tags ?? []).some(tag => filter.hiddenTags.includes(tag)) ||
+		(filter.onlyTags.length > 0 && !(node.tags ?? []).some(tag => filter.onlyTags.includes(tag)))
+	);
+}
@@ -0,0 +1,80 @@
+import * as d3 from 'd3';
+
+import type { GraphConfig, RemoveOptional } from '../../config';
+import { LAYOUT_FORCE } from './constants';
+
+export type ForceConfig = Pick<
+	RemoveOptional<GraphConfig>,
+	'layout' | 'linkDistance' | 'linkWeightScale' | 'repelForce' | 'centerForce' | 'colliderPadding' | 'alphaDecay'
+>;
+
+export type ForceNode = d3.SimulationNodeDatum & {
+	id: string,
+	colliderSize?: number | undefined,
+	/** Position of the node in the layout, see `computeLayoutTargets` */
+	targetX?: number | undefined,
+	targetY?: number | undefined,
+};
+export type ForceLink<N extends ForceNode> = d3.SimulationLinkDatum<N> & {
+	/** Number of times the source links to the target, see `linkWeights` */
+	weight?: number | undefined,
+};
+
+/**
+ * Get the factor by which the width and strength of a link are scaled, based on its weight
+ */
+export function getLinkWeightFactor(weight: number | undefined, linkWeightScale: number) {
+	return 1 + linkWeightScale * Math.log2(weight ?? 1);
+}
+
+/**
+ * Apply the forces of the graph to a simulation
+ * @remarks Shared between the graph in the browser and the layout computed at build time, so both result in the same layout
+ */
+export function applyForces<N extends ForceNode, L extends ForceLink<N>>(
+	simulation: d3.Simulation<N, undefined>,
+	links: L[],
+	config: ForceConfig,
+) {
+	const collisionForce = d3
+		.forceCollide<N>()
+		.radius(node => node.colliderSize! + config.colliderPadding);
+
+	if (config.layout !== 'force') {
+		// EXPL: Nodes are pulled towards their position in the layout, instead of being positioned by links and charge
+		return simulation
+			.force('link', null)
+			.force('charge', null)
+			.force('forceX', d3.forceX<N>(node => node.targetX ?? 0).strength(LAYOUT_FORCE))
+			.force('forceY', d3.forceY<N>(node => node.targetY ?? 0).strength(LAYOUT_FORCE))
+			.force('collision', collisionForce)
+			.alphaDecay(config.alphaDecay);
+	}
+
+	const linkForce = d3.forceLink<N, L>(links).id((d) => d.id);
+	if (config.linkDistance) {
+		linkForce.distance(config.linkDistance);
+	}
+	if (config.linkWeightScale) {
+		// EXPL: The default strength of d3 scaled by the weight of the link, capped at 1 to keep the simulation stable
+		const getId = (node: N | string | number) => typeof node === 'object' ? node.id : String(node);
+		const degrees = new Map<string, number>();
+		for (const link of links) {
+			for (const node of [link.source, link.target]) {
+				degrees.set(getId(node), (degrees.get(getId(node)) ?? 0) + 1);
+			}
+		}
+		linkForce.strength(link => Math.min(1,
+			getLinkWeightFactor(link.weight, config.linkWeightScale) /
+			Math.min(degrees.get(getId(link.source)) ?? 1, degrees.get(getId(link.target)) ?? 1),
+		));
+	}
+
+	return simulation
+		.force('link', linkForce)
+		.force('charge', d3.forceManyBody().distanceMax(500).strength(-config.repelForce))
+		.force('forceX', d3.forceX<N>().strength(config.centerForce))
+		.force('forceY', d3.forceY<N>().strength(config.centerForce))
+		.force('collision', collisionForce)
+		.alphaDecay(config.alphaDecay);
+}
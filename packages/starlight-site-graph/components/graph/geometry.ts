@@ -0,0 +1,56 @@
+import type { NodeData } from './types';
+import type { NodeShapeType } from '../../config';
+
+import { STAR_LINE_DEPTH } from './constants';
+
+/**
+ * Get the vertices of a polygon or star shape centered at the origin, before rotation
+ * @remarks Shared by the renderer and hit-testing, so nodes are picked by the shape they are drawn with
+ */
+export function getShapeVertices(shape: NodeShapeType, size: number, points: number): [number, number][] {
+	const vertices: [number, number][] = [];
+	if (shape === 'polygon') {
+		const angle = (Math.PI * 2) / points;
+		for (let i = 0; i < points; i++) {
+			vertices.push([size * Math.cos(-angle * i), size * Math.sin(-angle * i)]);
+		}
+	} else if (shape === 'star') {
+		for (let i = 0; i < 2 * points; i++) {
+			const angle = (Math.PI * 2 * i) / (2 * points);
+			const r = i % 2 === 0 ? size : size * STAR_LINE_DEPTH;
+			vertices.push([r * Math.sin(angle), -r * Math.cos(angle)]);
+		}
+	}
+	return vertices;
+}
+
+/**
+ * Check whether a point lies within a polygon, using the even-odd rule (so also works for concave shapes like stars)
+ */
+function isPointInPolygon(x: number, y: number, vertices: [number, number][]): boolean {
+	let inside = false;
+	for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+		const [xi, yi] = vertices[i]!, [xj, yj] = vertices[j]!;
+		if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
+
+/**
+ * Check whether a point in graph coordinates lies within the shape of a node (including its stroke)
+ */
+export function isPointInNode(node: NodeData, x: number, y: number): boolean {
+	const dx = x - node.x!, dy = y - node.y!;
+	const radius = node.fullRadius!;
+	if (dx ** 2 + dy ** 2 > radius ** 2) return false;
+
+	if (node.shape === 'polygon' || node.shape === 'star') {
+		// EXPL: Rotate the point into the frame of the shape, instead of rotating every vertex
+		const cos = Math.cos(node.shapeRotation!), sin = Math.sin(node.shapeRotation!);
+		return isPointInPolygon(dx * cos + dy * sin, -dx * sin + dy * cos, getShapeVertices(node.shape, radius, node.shapePoints!));
+	}
+
+	return true;
+}
@@ -14,11 +14,16 @@ import {
 	REQUIRE_ZOOM_UPDATE,
 	REQUIRE_NOTHING,
 	REQUIRE_LABEL_UPDATE,
-	MAX_DEPTH
+	MAX_DEPTH,
+	PRECOMPUTED_LAYOUT_ALPHA,
+	SITEMAP_INCOMPLETE_EVENT
 } from './constants';
 import { setSlashes } from '../../sitemap/util';
+import { getPreparationKey, prepareGraphData, type PreparedGraphData } from '../../sitemap/graph-data';
 import { onClickOutside, deepDiff, deepMerge } from '../util';
 import { GraphSimulator } from './simulator';
+import { loadGraphFilter, saveGraphFilter, type GraphFilter } from './filter';
+import { renderAccessibleGraph } from './accessibility';
 
 export class GraphComponent extends HTMLElement {
 	placeholderContainer: HTMLElement;
@@ -27,6 +32,11 @@ export class GraphComponent extends HTMLElement {
 	mockGraphContainer: HTMLElement;
 	actionContainer: HTMLElement;
 	blurContainer: HTMLElement;
+	/** Visually hidden list of the displayed nodes and links, read by assistive technologies instead of the canvas */
+	accessibleContainer: HTMLElement;
+	liveRegion: HTMLElement;
+	/** Card showing the details of the hovered node, see `renderPreview` */
+	previewContainer: HTMLElement;
 
 	debug: boolean = false;
 	trailingSlashes: boolean = true;
@@ -35,7 +45,14 @@ export class GraphComponent extends HTMLElement {
 	simulator!: GraphSimulator;
 
 	config!: RemoveOptional<GraphConfig>;
+	/** Nodes hidden by the user through the filter action, persisted across pages */
+	filter: GraphFilter;
 	sitemap!: Sitemap;
+	/** The sitemap as prepared for the graph, either prepared at build time or from `sitemap` */
+	graphData?: PreparedGraphData | undefined;
+	/** The depth around the current page up to which the graph data is complete, if it does not contain all pages */
+	sitemapDepth?: number | undefined;
+	sitemapRequested: boolean = false;
 
 	defaultColorTransitions!: Record<string, string>;
 	hoverColorTransitions!: Record<string, string>;
@@ -63,6 +80,8 @@ export class GraphComponent extends HTMLElement {
 		try {
 			this.setConfigListener(this.dataset['config']);
 			this.sitemap = JSON.parse(this.dataset['sitemap'] || '{}');
+			this.graphData = this.dataset['graphData'] ? JSON.parse(this.dataset['graphData']) : undefined;
+			this.sitemapDepth = this.getSitemapDepth();
 			this.trailingSlashes = this.dataset['trailingSlashes'] === 'true';
 			// NOTE: This ensures that the slug passed will always have the correct slash format (if using regular Graph.astro)
 			this.currentPage = setSlashes(this.dataset['slug'] || location.pathname, true, this.trailingSlashes)
@@ -71,6 +90,8 @@ export class GraphComponent extends HTMLElement {
 			console.error('[STARLIGHT-SITE-GRAPH] ' + (e instanceof Error ? e.message : e));
 		}
 
+		this.filter = loadGraphFilter();
+
 		this.classList.add('slsg-graph-component');
 
 		this.graphContainer = document.createElement('div');
@@ -79,8 +100,26 @@ export class GraphComponent extends HTMLElement {
 			if (e.key === 'f') this.enableFullscreen();
 		};
 		this.graphContainer.tabIndex = 0;
+		this.graphContainer.role = 'application';
+		this.graphContainer.ariaRoleDescription = 'graph';
+		this.graphContainer.ariaLabel = 'Site graph, use the arrow keys or Tab to move between pages and Enter to open a page';
 		this.appendChild(this.graphContainer);
 
+		this.accessibleContainer = document.createElement('div');
+		this.accessibleContainer.classList.add('slsg-sr-only');
+		this.graphContainer.appendChild(this.accessibleContainer);
+
+		this.liveRegion = document.createElement('div');
+		this.liveRegion.classList.add('slsg-sr-only');
+		this.liveRegion.ariaLive = 'polite';
+		this.graphContainer.appendChild(this.liveRegion);
+
+		this.previewContainer = document.createElement('div');
+		this.previewContainer.classList.add('slsg-preview-card');
+		this.previewContainer.hidden = true;
+		this.previewContainer.ariaHidden = 'true';
+		this.graphContainer.appendChild(this.previewContainer);
+
 		this.actionContainer = document.createElement('div');
 		this.actionContainer.classList.add('slsg-graph-action-container');
 		renderActionContainer(this);
@@ -132,6 +171,15 @@ export class GraphComponent extends HTMLElement {
 				}
 				if (mutation.attributeName === 'data-sitemap') {
 					this.sitemap = JSON.parse(this.dataset['sitemap'] || '{}');
+					this.graphData = undefined;
+					this.sitemapDepth = this.getSitemapDepth();
+					this.sitemapRequested = false;
+					this.setup();
+				}
+				if (mutation.attributeName === 'data-graph-data') {
+					this.graphData = this.dataset['graphData'] ? JSON.parse(this.dataset['graphData']) : undefined;
+					this.sitemapDepth = this.getSitemapDepth();
+					this.sitemapRequested = false;
 					this.setup();
 				}
 				this.ignoreConfigUpdate = false;
@@ -147,6 +195,43 @@ export class GraphComponent extends HTMLElement {
 		return config;
 	}
 
+	getSitemapDepth() {
+		return this.dataset['sitemapDepth'] ? Number(this.dataset['sitemapDepth']) : undefined;
+	}
+
+	/**
+	 * Get the graph data for the current config, preparing it from the sitemap if the available data does not match the config
+	 * @remarks If the graph data was prepared at build time and the sitemap is not available, the sitemap is requested
+	 *   and the mismatched graph data is used until it has been loaded
+	 */
+	getGraphData(): PreparedGraphData {
+		if (this.graphData?.key === getPreparationKey(this.config, this.trailingSlashes)) {
+			return this.graphData;
+		}
+
+		if (this.graphData && this.dataset['graphData'] && !Object.keys(this.sitemap).length) {
+			this.requestSitemap(true);
+			return this.graphData;
+		}
+
+		return this.graphData = prepareGraphData(this.sitemap, this.config, this.trailingSlashes);
+	}
+
+	requestSitemap(raw: boolean) {
+		if (this.sitemapRequested) return;
+		this.sitemapRequested = true;
+		this.dispatchEvent(new CustomEvent(SITEMAP_INCOMPLETE_EVENT, { detail: { raw } }));
+	}
+
+	/**
+	 * Replace the filter chosen by the user, and rebuild the graph with it
+	 */
+	setFilter(filter: GraphFilter) {
+		this.filter = filter;
+		saveGraphFilter(filter);
+		this.setup();
+	}
+
 	handleConfigChanged() {
 		const previousConfig = this.config;
 		this.setConfigListener(this.dataset['config']);
@@ -284,8 +369,17 @@ export class GraphComponent extends HTMLElement {
 		this.placeholderContainer.style.display = '';
 		this.style.visibility = 'hidden';
 
+		// EXPL: The graph is rendered with the partial graph data until the full graph data has been loaded,
+		//   a shard is also incomplete once the graph is centered on another page than the one it was loaded for
+		if (this.sitemapDepth !== undefined && (
+			this.config.depth >= MAX_DEPTH - 1 || this.config.depth > this.sitemapDepth ||
+			(this.dataset['shardPage'] !== undefined && this.dataset['shardPage'] !== this.currentPage)
+		)) {
+			this.requestSitemap(false);
+		}
+
 		this.cleanup();
-		const { nodes, links, usedColors, customColorMap } = processSitemapData(this, this.sitemap);
+		const { nodes, links, usedColors, customColorMap } = processSitemapData(this, this.getGraphData());
 		this.setupColors(usedColors, customColorMap);
 
 		const currentNode = nodes.find(node => node.id === this.currentPage);
@@ -293,7 +387,8 @@ export class GraphComponent extends HTMLElement {
 
 		this.simulator.initialize(nodes, links, currentNode, this.config.scale);
 		this.renderer.initialize();
-		this.simulator.update();
+		renderAccessibleGraph(this, nodes, links);
+		this.simulator.update(nodes.some(node => node.x !== undefined) ? PRECOMPUTED_LAYOUT_ALPHA : 1);
 
 		if (this.config.enableDrag) this.simulator.enableDrag();
 
@@ -301,8 +396,14 @@ export class GraphComponent extends HTMLElement {
 
 		if (this.enableClick) this.simulator.enableClick();
 
+		this.simulator.enableContextMenu();
+
+		if (this.config.enableKeyboard) this.simulator.enableKeyboard();
+
 		if (this.config.enableZoom || this.config.enablePan) this.simulator.enableZoom();
 
+		this.simulator.enableTouch();
+
 		this.placeholderContainer.style.display = 'none';
 		this.style.visibility = 'visible';
 		this.renderer.resize();
@@ -0,0 +1,135 @@
+import * as d3 from 'd3';
+
+import type { LinkData, NodeData } from './types';
+import type { GraphLayout } from '../../config';
+
+/**
+ * Assign the position of every node in the layout to its `targetX` and `targetY` fields,
+ * the current node is placed at the origin for the radial and circular layouts
+ * @remarks The force layout does not have fixed positions, so the targets of all nodes are removed
+ */
+export function computeLayoutTargets(
+	layout: GraphLayout,
+	nodes: NodeData[],
+	links: LinkData[],
+	currentNode: NodeData | undefined,
+	padding: number,
+) {
+	for (const node of nodes) {
+		delete node.targetX;
+		delete node.targetY;
+	}
+	if (layout === 'force' || !nodes.length) return;
+
+	// EXPL: Spacing between nodes is based on the largest node, so no two nodes overlap in the layout
+	const spacing = 2 * (nodes.reduce((max, node) => Math.max(max, node.colliderSize ?? 0), 0) + padding);
+	const center = currentNode ?? nodes[0]!;
+
+	if (layout === 'radial') {
+		computeRadialLayout(nodes, links, center, spacing);
+	} else if (layout === 'tree') {
+		computeTreeLayout(nodes, spacing);
+	} else if (layout === 'circular') {
+		computeCircularLayout(nodes, center, spacing);
+	}
+}
+
+/**
+ * Place the nodes on rings around the center node, the ring of a node is its distance to the center node
+ */
+function computeRadialLayout(nodes: NodeData[], links: LinkData[], center: NodeData, spacing: number) {
+	const neighbours = new Map<NodeData, NodeData[]>(nodes.map(node => [node, []]));
+	for (const { source, target } of links) {
+		neighbours.get(source)?.push(target);
+		neighbours.get(target)?.push(source);
+	}
+
+	const rings: NodeData[][] = [[center]];
+	const visited = new Set([center]);
+	while (true) {
+		const ring: NodeData[] = [];
+		for (const node of rings.at(-1)!) {
+			// EXPL: Neighbours are added in order of their parent, which keeps children close to their parent on the ring
+			for (const neighbour of neighbours.get(node)!.toSorted((a, b) => a.id.localeCompare(b.id))) {
+				if (!visited.has(neighbour)) {
+					visited.add(neighbour);
+					ring.push(neighbour);
+				}
+			}
+		}
+		if (!ring.length) break;
+		rings.push(ring);
+	}
+
+	// EXPL: Nodes that cannot be reached from the center node are placed on the outermost ring
+	const unreachable = nodes.filter(node => !visited.has(node));
+	if (unreachable.length) rings.push(unreachable);
+
+	center.targetX = 0;
+	center.targetY = 0;
+	let radius = 0;
+	for (const ring of rings.slice(1)) {
+		radius = Math.max(radius + spacing, (ring.length * spacing) / (2 * Math.PI));
+		for (const [i, node] of ring.entries()) {
+			const angle = (2 * Math.PI * i) / ring.length;
+			node.targetX = radius * Math.cos(angle);
+			node.targetY = radius * Math.sin(angle);
+		}
+	}
+}
+
+type TreeEntry = { name: string, node?: NodeData, children: Map<string, TreeEntry> };
+
+/**
+ * Get the keys of the entries leading to the node in the tree layout, headings are placed below the page they belong to
+ * @remarks Tags and headings are prefixed, so they do not take the place of a page with the same name (e.g. tag `guides` and page `/guides/`)
+ */
+function getTreePath(node: NodeData): string[] {
+	if (node.type === 'tag') return ['tag:' + node.id];
+	const [path, heading] = node.id.split('#');
+	const segments = path!.split('/').filter(Boolean);
+	return heading ? [...segments, '#' + heading] : segments;
+}
+
+/**
+ * Place the nodes in a top-down tree following the directory structure of their slugs
+ * @remarks Directories without a page are part of the tree, but do not have a node
+ */
+function computeTreeLayout(nodes: NodeData[], spacing: number) {
+	const root: TreeEntry = { name: '', children: new Map() };
+	for (const node of nodes) {
+		let entry = root;
+		for (const segment of getTreePath(node)) {
+			if (!entry.children.has(segment)) {
+				entry.children.set(segment, { name: segment, children: new Map() });
+			}
+			entry = entry.children.get(segment)!;
+		}
+		entry.node = node;
+	}
+
+	const hierarchy = d3.hierarchy(root, entry => [...entry.children.values()].sort((a, b) => a.name.localeCompare(b.name)));
+	const tree = d3.tree<TreeEntry>().nodeSize([spacing, spacing * 1.5])(hierarchy);
+	for (const entry of tree.descendants()) {
+		if (entry.data.node) {
+			entry.data.node.targetX = entry.x;
+			entry.data.node.targetY = entry.y;
+		}
+	}
+}
+
+/**
+ * Place the center node in the middle, and all other nodes on a single circle around it, ordered by their slug
+ */
+function computeCircularLayout(nodes: NodeData[], center: NodeData, spacing: number) {
+	const others = nodes.filter(node => node !== center).sort((a, b) => a.id.localeCompare(b.id));
+	const radius = Math.max(spacing, (others.length * spacing) / (2 * Math.PI));
+
+	center.targetX = 0;
+	center.targetY = 0;
+	for (const [i, node] of others.entries()) {
+		const angle = (2 * Math.PI * i) / others.length;
+		node.targetX = radius * Math.cos(angle);
+		node.targetY = radius * Math.sin(angle);
+	}
+}
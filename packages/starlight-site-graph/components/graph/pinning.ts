@@ -0,0 +1,65 @@
+import config from 'virtual:starlight-site-graph/config';
+
+const PINNED_STORAGE_KEY = 'starlight-site-graph--pinned-nodes';
+
+/**
+ * Pinned positions of nodes, stored per page whose graph they were pinned in
+ */
+type PinnedPositions = Record<string, Record<string, [number, number]>>;
+
+function getStorage(): Storage | undefined {
+	if (config.persistPinnedNodes === 'disable') return undefined;
+	return config.persistPinnedNodes === 'session' ? sessionStorage : localStorage;
+}
+
+function loadAllPinnedPositions(storage: Storage): PinnedPositions {
+	try {
+		return JSON.parse(storage.getItem(PINNED_STORAGE_KEY) ?? '{}');
+	} catch (e) {
+		console.error('[STARLIGHT-SITE-GRAPH] ' + (e instanceof Error ? e.message : e));
+		return {};
+	}
+}
+
+/**
+ * Get the positions of the nodes that were pinned in the graph of a page
+ */
+export function loadPinnedPositions(page: string): Record<string, [number, number]> {
+	const storage = getStorage();
+	return storage ? loadAllPinnedPositions(storage)[page] ?? {} : {};
+}
+
+/**
+ * Store the position of a pinned node in the graph of a page, or forget it if no position is given
+ */
+export function savePinnedPosition(page: string, id: string, position: [number, number] | undefined) {
+	const storage = getStorage();
+	if (!storage) return;
+
+	const positions = loadAllPinnedPositions(storage);
+	const pagePositions = positions[page] ?? {};
+	if (position) {
+		pagePositions[id] = position;
+	} else {
+		delete pagePositions[id];
+	}
+
+	if (Object.keys(pagePositions).length) {
+		positions[page] = pagePositions;
+	} else {
+		delete positions[page];
+	}
+	storage.setItem(PINNED_STORAGE_KEY, JSON.stringify(positions));
+}
+
+/**
+ * Forget the positions of all nodes pinned in the graph of a page
+ */
+export function clearPinnedPositions(page: string) {
+	const storage = getStorage();
+	if (!storage) return;
+
+	const positions = loadAllPinnedPositions(storage);
+	delete positions[page];
+	storage.setItem(PINNED_STORAGE_KEY, JSON.stringify(positions));
+}
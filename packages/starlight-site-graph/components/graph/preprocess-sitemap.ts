@@ -1,15 +1,20 @@
-import micromatch from 'micromatch';
-
-import type { LinkData, NodeData } from './types';
-import type { Sitemap } from '../../config';
+import type { LinkData, NodeData, ProcessedNodeStyle } from './types';
+import { linkDefaultStyle, type LinkStyle, type LinkType, type SitemapMetrics } from '../../config';
+import { computeSizes, getNeighbours, getSizeMetricValue, type PreparedGraphData, type PreparedNode } from '../../sitemap/graph-data';
 import type { GraphComponent } from './graph-component';
 import type { NodeStyle } from '../../config';
 import { cssVariablesMap } from '../../color';
 
-import { getVisitedEndpoints, simplifySlug } from '../util';
+import { getVisitedEndpoints } from '../util';
+import { isFiltered } from './filter';
 
 import { DEFAULT_CORNER_RADIUS, DEFAULT_POLYGON_POINTS, DEFAULT_STAR_POINTS, DEFAULT_STROKE_WIDTH } from './constants';
 
+/**
+ * Link between the ids of two nodes, the ids are replaced by the nodes themselves in `GraphSimulator.initialize`
+ */
+type SitemapLink = Omit<LinkData, 'source' | 'target'> & { source: string, target: string };
+
 export type GraphData = {
 	nodes: NodeData[];
 	links: LinkData[];
@@ -17,76 +22,65 @@ export type GraphData = {
 	customColorMap: Record<string, string>;
 };
 
-function firstMatchingPattern(
-	text: string,
-	patterns: string | string[],
-	defaultMatch?: boolean,
-): boolean | undefined {
-	const patternList = typeof patterns === 'string' ? [patterns] : patterns;
-	for (const pattern of patternList) {
-		if (micromatch.isMatch(text, pattern.startsWith('!') ? pattern.slice(1) : pattern)) {
-			return !pattern.startsWith('!');
+/**
+ * Register a color as used, custom colors are replaced by a generated color name
+ */
+function getUsedColor(color: string, usedColors: Set<string>, customColorMap: Record<string, string>) {
+	if (!(color in cssVariablesMap) && color !== 'stroke' && color !== 'inherit') {
+		const customColor = color;
+		color = customColorMap[customColor]!;
+		if (!color) {
+			color = `nodeColorCustom${Object.keys(customColorMap).length + 1}`;
+			customColorMap[customColor] = color;
 		}
 	}
-	return defaultMatch;
+	usedColors.add(color);
+	return color;
 }
 
 function getUsedColors(style: Partial<NodeStyle>, usedColors: Set<string>, customColorMap: Record<string, string>) {
 	if (style.shapeColor) {
-		let color = style.shapeColor;
-		if (!(color in cssVariablesMap) && color !== 'stroke') {
-			color = customColorMap[style.shapeColor]!;
-			if (!color) {
-				color = `nodeColorCustom${Object.keys(customColorMap).length + 1}`;
-				customColorMap[style.shapeColor] = color;
-			}
-			style.shapeColor = color;
-		}
-		usedColors.add(color);
+		style.shapeColor = getUsedColor(style.shapeColor, usedColors, customColorMap) as NodeStyle['shapeColor'];
 	}
 	if (style.strokeColor) {
-		let color = style.strokeColor;
-		if (!(color in cssVariablesMap) && color !== 'inherit') {
-			color = customColorMap[style.strokeColor]!;
-			if (!color) {
-				color = `nodeColorCustom${Object.keys(customColorMap).length + 1}`;
-				customColorMap[style.strokeColor] = color;
-			}
-			style.strokeColor = color;
-		}
-		usedColors.add(color);
+		style.strokeColor = getUsedColor(style.strokeColor, usedColors, customColorMap) as NodeStyle['strokeColor'];
 	}
 }
 
+/**
+ * Get the type of the link between two nodes, links without an explicit type in the sitemap are `external` or `body` links
+ */
+function getLinkType(data: Map<string, PreparedNode>, source: string, target: string): LinkType {
+	return data.get(source)?.linkTypes?.[target] ?? (data.get(target)?.external ? 'external' : 'body');
+}
+
+function getLinkWeight(data: Map<string, PreparedNode>, source: string, target: string): number {
+	return data.get(source)?.linkWeights?.[target] ?? 1;
+}
+
 
-// TODO: Preprocess sitemap at build time and bundle together (client load performance vs. built page size)
-export function processSitemapData(context: GraphComponent, siteData: Sitemap): GraphData {
+export function processSitemapData(context: GraphComponent, graphData: PreparedGraphData): GraphData {
 	const visitedPages: Set<string> = getVisitedEndpoints();
 
 	let slug = context.currentPage;
 
-	let corrected_data = Object.entries(siteData).map(([k, v]) => {
-		return [(k.startsWith("http") || k.startsWith("mailto:")) ? k : simplifySlug(k, context.trailingSlashes), v] as const
-	});
-	if (context.config.nodeInclusionRules && (context.config.nodeInclusionRules.length > 1 || context.config.nodeInclusionRules[0] !== "**/*")) {
-		corrected_data = corrected_data.filter(([k, _]) => {
-			return firstMatchingPattern(k, context.config.nodeInclusionRules, true)
-		});
-	}
+	const data = new Map(Object.entries(graphData.nodes));
+	const metricScale = graphData.metricScale;
 
-	if (!context.config.renderUnresolved) {
-		corrected_data = corrected_data.filter(([_, v]) => v.exists);
-	}
-	if (!context.config.renderExternal) {
-		corrected_data = corrected_data.filter(([_, v]) => !v.external);
+	// EXPL: Filtered nodes are removed before traversing the graph, so they are neither rendered nor followed (the current page is always kept)
+	for (const [id, node] of data) {
+		if (id !== slug && isFiltered(context.filter, id, node, visitedPages.has(id))) {
+			data.delete(id);
+		}
 	}
 
-	const data = new Map(corrected_data);
-
 	let depth = context.config.depth;
 	if (depth >= 5) depth = -1;
 
-	let links: LinkData[] = [];
+	let links: SitemapLink[] = [];
+	const linkTypes = new Set(context.config.renderLinkTypes);
+	const renderTagNodes = (context.config.tagRenderMode === 'node' || context.config.tagRenderMode === 'both') &&
+		linkTypes.has('tag') && !context.filter.hiddenKinds.includes('tag');
 	const tags: Set<string> = new Set();
 	const validLinks = new Set(data.keys());
 	const neighbourhood = new Set<string>();
@@ -112,10 +106,13 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 				}
 
 				neighbourhood.add(current);
+				// EXPL: Links of hidden types are not followed, so nodes only reachable through them are not part of the graph
 				if (context.config.depthDirection === 'outgoing' || context.config.depthDirection === 'both') {
 					for (const link of node.links ?? []) {
+						const type = getLinkType(data, current, link);
+						if (!linkTypes.has(type)) continue;
 						if (validLinks.has(link)) {
-							links.push({ source: current, target: link });
+							links.push({ source: current, target: link, type, weight: getLinkWeight(data, current, link) });
 						}
 						queue.push(link);
 					}
@@ -123,36 +120,61 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 
 				if (context.config.depthDirection === 'incoming' || context.config.depthDirection === 'both') {
 					for (const link of node.backlinks ?? []) {
+						const type = getLinkType(data, link, current);
+						if (!linkTypes.has(type)) continue;
 						if (validLinks.has(link)) {
-							links.push({ source: link, target: current });
+							links.push({ source: link, target: current, type, weight: getLinkWeight(data, link, current) });
 						}
 						queue.push(link);
 					}
 				}
 
-				if (context.config.tagRenderMode === 'node' || context.config.tagRenderMode === 'both') {
+				// EXPL: Hierarchy links point from a page to its parent, the parent and children were only kept if they are part of the graph
+				if (linkTypes.has('hierarchy')) {
+					if (node.parent && (context.config.depthDirection === 'outgoing' || context.config.depthDirection === 'both')) {
+						links.push({ source: current, target: node.parent, type: 'hierarchy' });
+						queue.push(node.parent);
+					}
+					if (context.config.depthDirection === 'incoming' || context.config.depthDirection === 'both') {
+						for (const child of node.children ?? []) {
+							links.push({ source: child, target: current, type: 'hierarchy' });
+							queue.push(child);
+						}
+					}
+				}
+
+				if (renderTagNodes) {
 					for (const tag of node.tags ?? []) {
+						if (context.filter.hiddenNodes.includes(tag)) continue;
 						neighbourhood.add(tag);
 						tags.add(tag);
-						links.push({ source: current, target: tag });
+						links.push({ source: current, target: tag, type: 'tag' });
 					}
 				}
 			}
 		}
 	} else {
 		for (const [source, details] of data.entries()) {
+			// EXPL: Folders and external pages only exist because of their links, so they are hidden along with them
+			if ((details.folder && !linkTypes.has('hierarchy')) || (details.external && !linkTypes.has('external'))) continue;
+
 			neighbourhood.add(source);
 			for (const link of details.links ?? []) {
-				if (validLinks.has(link)) {
-					links.push({ source: source, target: link });
+				const type = getLinkType(data, source, link);
+				if (validLinks.has(link) && linkTypes.has(type)) {
+					links.push({ source: source, target: link, type, weight: getLinkWeight(data, source, link) });
 				}
 			}
+			if (details.parent && linkTypes.has('hierarchy')) {
+				links.push({ source: source, target: details.parent, type: 'hierarchy' });
+			}
 
-			if (context.config.tagRenderMode === 'node' || context.config.tagRenderMode === 'both') {
+			if (renderTagNodes) {
 				for (const tag of details.tags ?? []) {
+					if (context.filter.hiddenNodes.includes(tag)) continue;
 					neighbourhood.add(tag);
 					tags.add(tag);
-					links.push({ source: source, target: tag });
+					links.push({ source: source, target: tag, type: 'tag' });
 				}
 			}
 		}
@@ -173,37 +195,24 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 		const node = data.get(id);
 		if (!node) continue;
 
-		const adjacent = new Set([...(node.links ?? []), ...(node.backlinks ?? [])]);
-
-		// Chain of declarations determines style priority
-		let style: NodeStyle = { ...context.config.nodeDefaultStyle } as NodeStyle;
-		if (node.external) {
-			style = { ...style, ...(context.config.nodeExternalStyle as NodeStyle) };
-		}
+		const adjacent = new Set(getNeighbours(node));
 
+		// Chain of declarations determines style priority, all other styles were resolved when preparing the graph data
+		let style: NodeStyle = { ...context.config.nodeDefaultStyle, ...node.baseStyle } as NodeStyle;
 		if (visitedPages.has(id)) {
 			style = { ...style, ...(context.config.nodeVisitedStyle as NodeStyle) };
 		}
 
-		if (context.config.tagRenderMode === 'same' || context.config.tagRenderMode === 'both') {
-			style = {
-				...style,
-				...((node.tags ?? []).reduce((acc, tag) => ({ ...acc, ...context.config.tagStyles[tag] }), {}) as NodeStyle),
-			};
-		}
+		style = { ...style, ...node.pageStyle };
 
 		if (id === context.currentPage) {
 			style = { ...style, ...(context.config.nodeCurrentStyle as NodeStyle) };
 		}
 
-		if (!node.exists) {
-			style = { ...style, ...(context.config.nodeUnresolvedStyle as NodeStyle) };
-		}
-
-		style = processStyle({ ...style, ...((node.nodeStyle ?? {}) as NodeStyle) });
+		const nodeStyle = processStyle({ ...style, ...node.finalStyle }, node.metrics);
 
-		const { computedSize, fullRadius, colliderSize } = computeSizes(style, adjacent.size);
-		getUsedColors(style, usedColors, customColorMap);
+		const { computedSize, fullRadius, colliderSize } = computeSizes(nodeStyle, getSizeMetricValue(nodeStyle, node, adjacent.size, metricScale));
+		getUsedColors(nodeStyle, usedColors, customColorMap);
 
 		nodes.push({
 			id: id,
@@ -211,19 +220,22 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 			external: node.external,
 			text: node.title,
 			tags: node.tags ?? [],
+			...(node.description ? { description: node.description } : {}),
+			backlinkCount: node.backlinks?.length ?? 0,
+			type: node.heading ? 'heading' : node.folder ? 'folder' : 'node',
 			adjacent,
 
-			shape: style.shape,
-			shapeSize: style.shapeSize,
-			shapeColor: style.shapeColor,
-			strokeWidth: style.strokeWidth,
-			strokeColor: style.strokeColor,
-			shapePoints: style.shapePoints,
-			shapeRotation: style.shapeRotation,
-			shapeCornerRadius: style.shapeCornerRadius,
-			strokeCornerRadius: style.strokeCornerRadius,
+			shape: nodeStyle.shape,
+			shapeSize: nodeStyle.shapeSize,
+			shapeColor: nodeStyle.shapeColor,
+			strokeWidth: nodeStyle.strokeWidth,
+			strokeColor: nodeStyle.strokeColor,
+			shapePoints: nodeStyle.shapePoints,
+			shapeRotation: nodeStyle.shapeRotation,
+			shapeCornerRadius: nodeStyle.shapeCornerRadius,
+			strokeCornerRadius: nodeStyle.strokeCornerRadius,
 
-			cornerType: style.cornerType,
+			cornerType: nodeStyle.cornerType,
 
 			// TODO: computedSize may be removed if no use for it is found
 			computedSize,
@@ -238,7 +250,7 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 			...(context.config.tagStyles[tag] ?? {}),
 		} as NodeStyle);
 
-		const adjacent = new Set([...links.filter(l => l.source === tag).map(l => l.target as string)]);
+		const adjacent = new Set([...links.filter(l => l.source === tag).map(l => l.target)]);
 		const { computedSize, fullRadius, colliderSize } = computeSizes(tagStyle, adjacent.size);
 		getUsedColors(tagStyle, usedColors, customColorMap);
 
@@ -259,11 +271,20 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 		});
 	}
 
+	if (context.config.precomputeLayout && context.config.layout === 'force') {
+		applyPrecomputedLayout(nodes, links, data);
+	}
+
+	const linkStyles = new Map([...linkTypes].map(type => {
+		const style = { ...linkDefaultStyle, ...context.config.linkStyles[type] } as LinkStyle;
+		return [type, { ...style, color: getUsedColor(style.color, usedColors, customColorMap) as LinkStyle['color'] }];
+	}));
+
 	return {
 		nodes,
-		links: links.filter(
-			l => neighbourhood.has(l.source as unknown as string) && neighbourhood.has(l.target as unknown as string),
-		),
+		links: links
+			.filter(l => neighbourhood.has(l.source) && neighbourhood.has(l.target))
+			.map(l => ({ ...l, ...linkStyles.get(l.type) })) as unknown as LinkData[],
 		usedColors: Array.from( usedColors.difference(new Set([
 			"inherit", "stroke",
 			"nodeColorHover", "nodeColorAdjacent", "nodeColorMuted",
@@ -274,19 +295,41 @@ export function processSitemapData(context: GraphComponent, siteData: Sitemap):
 	};
 }
 
-function computeSizes(style: NodeStyle, neighborCount: number): { computedSize: number, fullRadius: number, colliderSize: number } {
-	// Magick radius calculations
-	const scaleFactor = Math.max(
-		0.00000001,
-		(-9.67101 * 0.99868 ** neighborCount + 10.6354) ** style.neighborScale * style.nodeScale,
-	);
-	const computedSize = style.shapeSize * scaleFactor,
-		fullRadius = computedSize + style.strokeWidth / 2,
-		colliderSize = fullRadius * style.colliderScale;
-	return { computedSize, fullRadius, colliderSize };
+/**
+ * Start every node from its position in the layout computed at build time
+ * @remarks Nodes without a precomputed position (e.g. tags) are placed near the positioned nodes they are linked to
+ */
+function applyPrecomputedLayout(nodes: NodeData[], links: SitemapLink[], data: Map<string, PreparedNode>) {
+	for (const node of nodes) {
+		const entry = data.get(node.id);
+		if (entry?.x !== undefined && entry.y !== undefined) {
+			node.x = entry.x;
+			node.y = entry.y;
+		}
+	}
+
+	const positions = new Map(nodes.filter(node => node.x !== undefined).map(node => [node.id, node]));
+	for (const node of nodes) {
+		if (node.x !== undefined) continue;
+
+		const neighbours: NodeData[] = [];
+		for (const link of links) {
+			const neighbour = positions.get(link.source === node.id ? link.target : link.target === node.id ? link.source : '');
+			if (neighbour) neighbours.push(neighbour);
+		}
+		if (!neighbours.length) continue;
+
+		// EXPL: Nodes at the exact same position cannot be separated by the simulation, so a small offset is added
+		node.x = neighbours.reduce((acc, n) => acc + n.x!, 0) / neighbours.length + (Math.random() - 0.5) * 10;
+		node.y = neighbours.reduce((acc, n) => acc + n.y!, 0) / neighbours.length + (Math.random() - 0.5) * 10;
+	}
 }
 
-function processStyle(style: Partial<NodeStyle>): NodeStyle {
+function processStyle(style: Partial<NodeStyle>, metrics?: SitemapMetrics): ProcessedNodeStyle {
+	if (style.shapeColor === 'community') {
+		style.shapeColor = metrics ? `nodeColor${metrics.community % 9 + 1}` : 'nodeColor';
+	}
+
 	if (style.strokeColor) {
 		style.strokeWidth ??= DEFAULT_STROKE_WIDTH;
 	} else if (style.strokeWidth) {
@@ -338,5 +381,5 @@ function processStyle(style: Partial<NodeStyle>): NodeStyle {
 		style.strokeCornerRadius = 0;
 	}
 
-	return style as NodeStyle;
+	return style as ProcessedNodeStyle;
 }
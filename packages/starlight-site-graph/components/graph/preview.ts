@@ -0,0 +1,72 @@
+import type { NodeData } from './types';
+import type { GraphComponent } from './graph-component';
+
+import { PREVIEW_OFFSET } from './constants';
+
+function createPreviewContent(node: NodeData): HTMLElement[] {
+	const title = document.createElement('div');
+	title.className = 'slsg-preview-title';
+	title.textContent = node.text || node.id;
+	const content = [title];
+
+	if (node.description) {
+		const description = document.createElement('p');
+		description.className = 'slsg-preview-description';
+		description.textContent = node.description;
+		content.push(description);
+	}
+
+	if (node.type !== 'tag' && node.tags?.length) {
+		const tags = document.createElement('div');
+		tags.className = 'slsg-preview-tags';
+		for (const tag of node.tags) {
+			const tagElement = document.createElement('span');
+			tagElement.className = 'slsg-preview-tag';
+			tagElement.textContent = tag;
+			tags.appendChild(tagElement);
+		}
+		content.push(tags);
+	}
+
+	if (node.backlinkCount) {
+		const backlinks = document.createElement('div');
+		backlinks.className = 'slsg-preview-backlinks';
+		backlinks.textContent = node.backlinkCount === 1 ? '1 backlink' : `${node.backlinkCount} backlinks`;
+		content.push(backlinks);
+	}
+
+	return content;
+}
+
+/**
+ * Show the preview card of a node next to it, or hide the card if no node is given
+ * @remarks The card is only rebuilt if the previewed node changed, otherwise it is just moved along with the node
+ */
+export function updatePreview(context: GraphComponent, node: NodeData | undefined) {
+	const card = context.previewContainer;
+	if (!node) {
+		card.hidden = true;
+		delete card.dataset['node'];
+		return;
+	}
+
+	if (card.dataset['node'] !== node.id) {
+		card.dataset['node'] = node.id;
+		card.replaceChildren(...createPreviewContent(node));
+	}
+	card.hidden = false;
+
+	const transform = context.simulator.transform;
+	const [x, y] = transform.apply([node.x!, node.y!]);
+	const radius = node.fullRadius! * transform.k;
+
+	// EXPL: The card is placed to the right of the node, unless it would not fit within the graph
+	const width = context.graphContainer.clientWidth, height = context.graphContainer.clientHeight;
+	const left = x + radius + PREVIEW_OFFSET + card.offsetWidth > width
+		? x - radius - PREVIEW_OFFSET - card.offsetWidth
+		: x + radius + PREVIEW_OFFSET;
+	const top = Math.min(Math.max(y - card.offsetHeight / 2, 0), height - card.offsetHeight);
+
+	card.style.left = `${Math.max(left, 0)}px`;
+	card.style.top = `${Math.max(top, 0)}px`;
+}
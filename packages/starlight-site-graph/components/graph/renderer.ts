@@ -1,5 +1,5 @@
 import * as PIXI from './pixi/pixi';
-import type { LinkData, NodeData } from './types';
+import type { LinkColorKey, LinkData, NodeData } from './types';
 
 import type { NodeShapeType } from '../../config';
 import { type GraphComponent } from './graph-component';
@@ -11,9 +11,13 @@ import {
 	LINK_DEFAULT_Z_INDEX, LINK_HOVER_Z_INDEX, LINK_MUTED_Z_INDEX,
 	NODE_DEFAULT_Z_INDEX, NODE_HOVER_Z_INDEX, NODE_MUTED_Z_INDEX,
 	STROKE_DEFAULT_Z_INDEX, STROKE_HOVER_Z_INDEX, STROKE_MUTED_Z_INDEX,
-	DEFAULT_ARROW_SCALE, STAR_LINE_DEPTH
+	DEFAULT_ARROW_SCALE, STAR_LINE_DEPTH,
+	FOCUS_RING_Z_INDEX, FOCUS_RING_WIDTH, FOCUS_RING_OFFSET,
 } from './constants';
 import type { GraphSimulator } from './simulator';
+import { getShapeVertices } from './geometry';
+import { getLinkWeightFactor } from './forces';
+import { updatePreview } from './preview';
 
 // TODO: Shared graphicsContext would improve performance (investigate whether context would share zIndex/...)
 export class GraphRenderer {
@@ -25,6 +29,7 @@ export class GraphRenderer {
 	linkHoverGraphics!: PIXI.Graphics;
 	arrowGraphics!: PIXI.Graphics;
 	arrowHoverGraphics!: PIXI.Graphics;
+	focusGraphics!: PIXI.Graphics;
 
 	visibilityObserver!: IntersectionObserver;
 
@@ -55,8 +60,10 @@ export class GraphRenderer {
 		this.app.stage.addChild(this.linkHoverGraphics = new PIXI.Graphics());
 		this.app.stage.addChild(this.arrowGraphics = new PIXI.Graphics());
 		this.app.stage.addChild(this.arrowHoverGraphics = new PIXI.Graphics());
+		this.app.stage.addChild(this.focusGraphics = new PIXI.Graphics());
 		this.linkHoverGraphics.zIndex = LINK_HOVER_Z_INDEX;
 		this.arrowHoverGraphics.zIndex = ARROW_HOVER_Z_INDEX;
+		this.focusGraphics.zIndex = FOCUS_RING_Z_INDEX;
 
 		this.app.stage.sortableChildren = true;
 		this.app.ticker.add((ticker: PIXI.Ticker) => {
@@ -102,6 +109,7 @@ export class GraphRenderer {
 		this.app.stage.addChild(this.linkHoverGraphics.clear());
 		this.app.stage.addChild(this.arrowGraphics.clear());
 		this.app.stage.addChild(this.arrowHoverGraphics.clear());
+		this.app.stage.addChild(this.focusGraphics.clear());
 	}
 
 	destroy() {
@@ -136,11 +144,41 @@ export class GraphRenderer {
 			this.simulator.requestRender = false;
 			this.drawNodes(this.simulator.nodes);
 			this.drawLinks(this.simulator.links);
+			this.drawFocusRing(this.simulator.keyboardNode);
+			if (this.context.config.renderPreview) {
+				const previewed = this.simulator.isHovering
+					? this.simulator.nodes.find(node => node.id === this.simulator.currentlyHovered)
+					: undefined;
+				updatePreview(this.context, previewed);
+			}
 		}
 		this.linkHoverGraphics.alpha = this.context.animator.getValue('linkOpacityHover');
 		this.arrowHoverGraphics.alpha = this.context.animator.getValue('linkOpacityHover');
 	}
 
+	/**
+	 * Render the current view of the graph to a PNG image, at the given resolution (relative to the size of the graph on screen)
+	 * @remarks The canvas is rendered at the requested resolution for just this frame, the image is copied before it is restored
+	 */
+	toPNG(resolution: number, backgroundColor: string): Promise<Blob> {
+		const renderer = this.app.renderer;
+		const previousResolution = renderer.resolution;
+		const previousAlpha = renderer.background.alpha;
+
+		renderer.background.color = backgroundColor;
+		renderer.background.alpha = 1;
+		renderer.resize(this.container.clientWidth, this.container.clientHeight, resolution);
+		this.app.render();
+		const image = new Promise<Blob>((resolve, reject) => {
+			this.app.canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to export the graph as PNG')), 'image/png');
+		});
+
+		renderer.background.alpha = previousAlpha;
+		renderer.resize(this.container.clientWidth, this.container.clientHeight, previousResolution);
+		this.app.render();
+		return image;
+	}
+
 	resetZoom(zoomTransform: { k: number; x: number; y: number }) {
 		// @ts-expect-error __zoom is a private property
 		this.app.canvas.__zoom = zoomTransform;
@@ -171,7 +209,7 @@ export class GraphRenderer {
 
 			if (this.context.config.renderLabels) {
 				this.createLabel(node);
-				this.app.stage.addChild(node.label);
+				this.app.stage.addChild(node.label!);
 			}
 		}
 	}
@@ -192,7 +230,7 @@ export class GraphRenderer {
 			node.node!.stroke({
 				color: 0xffffff,
 				width: node.shapeCornerRadius!,
-				join: node.cornerType!,
+				join: node.cornerType === 'bevel' ? 'bevel' : 'round',
 			});
 		}
 	}
@@ -223,7 +261,7 @@ export class GraphRenderer {
 			node.stroke!.stroke({
 				color: strokeFill,
 				width: node.strokeCornerRadius!,
-				join: node.cornerType!,
+				join: node.cornerType === 'bevel' ? 'bevel' : 'round',
 			});
 		}
 	}
@@ -237,27 +275,18 @@ export class GraphRenderer {
 	): PIXI.Graphics {
 		if (shape === 'circle') {
 			graphics.circle(0, 0, size);
-		} else if (shape === 'polygon') {
-			const angle = (Math.PI * 2) / points!;
-			graphics.moveTo(size, 0);
-			for (let i = 0; i < points!; i++) {
-				graphics.lineTo(size * Math.cos(-angle * i), size * Math.sin(-angle * i));
+		} else if (shape === 'polygon' || shape === 'star') {
+			const [first, ...rest] = getShapeVertices(shape, size, points!);
+			graphics.moveTo(...first!);
+			for (const vertex of rest) {
+				graphics.lineTo(...vertex);
 			}
 			graphics.closePath();
 
 			// DEBUG: Render drawing order of the polygon vertices
-			// graphics.circle(size, 0, 2);
-			// for (let i = 0; i < points!; i++) {
-			// 	graphics.circle(size * Math.cos(- angle * i), size * Math.sin(- angle * i), 2 + i / 4);
+			// for (const [i, [x, y]] of getShapeVertices(shape, size, points!).entries()) {
+			// 	graphics.circle(x, y, 2 + i / 4);
 			// }
-		} else if (shape === 'star') {
-			graphics.moveTo(0, -size);
-			for (let i = 0; i < 2 * points!; i++) {
-				const angle = (Math.PI * 2 * i) / (2 * points!);
-				const r = i % 2 === 0 ? size : size * STAR_LINE_DEPTH;
-				graphics.lineTo(r * Math.sin(angle), -r * Math.cos(angle));
-			}
-			graphics.closePath();
 		} else {
 			console.error('[STARLIGHT-SITE-GRAPH] Invalid shape type: ' + shape);
 		}
@@ -268,11 +297,14 @@ export class GraphRenderer {
 
 	drawNodes(nodes: NodeData[]) {
 		for (const node of nodes) {
-			const hovered = this.simulator.currentlyHovered !== '' && node.id === this.simulator.currentlyHovered;
+			const hovered = this.simulator.isHighlighted(node);
 			let adjacent = false;
 			if (!hovered && this.simulator.currentlyHovered !== '') {
 				adjacent = node.adjacent.has(this.simulator.currentlyHovered);
 			}
+			if (!hovered && !adjacent && this.simulator.searchMatches.size) {
+				adjacent = [...node.adjacent].some(id => this.simulator.searchMatches.has(id));
+			}
 			if (node.strokeWidth && node.strokeColor) {
 				this.drawNodeStroke(node, hovered);
 				node.stroke!.position.set(node.x!, node.y!);
@@ -355,21 +387,23 @@ export class GraphRenderer {
 
 		const [xStart, yStart] = this.getLinkOffset(link.source, outAngle);
 		const [xEnd, yEnd] = this.getLinkOffset(link.target, incAngle);
+		const linkColor = (link.color ?? 'linkColor') as LinkColorKey;
+		const linkWidth = (link.width ?? this.context.config.linkWidth) * getLinkWeightFactor(link.weight, this.context.config.linkWeightScale);
 		let width, color;
 		if (hovered) {
-			width = this.context.animator.getValue('linkWidthHover');
-			color = this.context.animator.getValue('linkColorHover');
+			// EXPL: Links wider than the hover width keep their width when hovered
+			width = Math.max(linkWidth, this.context.animator.getValue('linkWidthHover'));
+			color = this.context.animator.getValue(`${linkColor}Hover`) as string;
 		} else {
-			width = this.context.config.linkWidth;
-			color = this.context.animator.getValue('linkColor');
+			width = linkWidth;
+			color = this.context.animator.getValue(linkColor) as string;
 		}
 
-		this.linkGraphics.moveTo(xStart, yStart)
-			 .lineTo(xEnd, yEnd)
-			 .stroke({ width: width / linkZoomLevel, color: color });
+		const dashPattern = (link.dashPattern ?? []).map((length: number) => length / linkZoomLevel);
+		this.drawLine(this.linkGraphics, xStart, yStart, xEnd, yEnd, dashPattern)
+			.stroke({ width: width / linkZoomLevel, color: color });
 		if (hovered) {
-			this.linkHoverGraphics.moveTo(xStart, yStart)
-				.lineTo(xEnd, yEnd)
+			this.drawLine(this.linkHoverGraphics, xStart, yStart, xEnd, yEnd, dashPattern)
 				.stroke({ width: width / linkZoomLevel, color: color });
 		}
 
@@ -377,38 +411,67 @@ export class GraphRenderer {
 		// layer.circle(...this.nodeCircleOffset({...link.source, shape: "circle"}, outAngle), 2).fill(0x00ff00)
 		// layer.circle(...this.nodeCircleOffset({...link.target, shape: "circle"}, incAngle), 2).fill(0xff0000)
 
-		if (this.context.config.renderArrows && this.simulator.zoomTransform.k > this.context.config.minZoomArrows) {
-			this.drawArrowHead(xEnd, yEnd, width, incAngle, hovered);
+		if (this.context.config.renderArrows && link.renderArrow !== false && this.simulator.zoomTransform.k > this.context.config.minZoomArrows) {
+			this.drawArrowHead(xEnd, yEnd, width, incAngle, linkColor, hovered);
 		}
 	}
 
-	drawArrowHead(nodeX: number, nodeY: number, linkWidth: number, nodeAngle: number, hovered: boolean) {
+	/**
+	 * Draw a line following a dash pattern of alternating dash and gap lengths, an empty pattern draws a solid line
+	 */
+	drawLine(graphics: PIXI.Graphics, x1: number, y1: number, x2: number, y2: number, dashPattern: number[]) {
+		if (!dashPattern.some(length => length > 0)) {
+			return graphics.moveTo(x1, y1).lineTo(x2, y2);
+		}
+
+		// EXPL: Like SVG dash arrays, a pattern of odd length is repeated to get alternating dashes and gaps
+		const pattern = dashPattern.length % 2 ? [...dashPattern, ...dashPattern] : dashPattern;
+		const length = Math.hypot(x2 - x1, y2 - y1);
+		const dx = (x2 - x1) / length, dy = (y2 - y1) / length;
+		for (let start = 0, i = 0; start < length; start += pattern[i]!, i = (i + 1) % pattern.length) {
+			if (i % 2 === 0) {
+				const end = Math.min(start + pattern[i]!, length);
+				graphics.moveTo(x1 + dx * start, y1 + dy * start).lineTo(x1 + dx * end, y1 + dy * end);
+			}
+		}
+		return graphics;
+	}
+
+	/**
+	 * Get the tip, left and right corner of the arrow head of a link ending at the given point
+	 */
+	getArrowVertices(nodeX: number, nodeY: number, linkWidth: number, nodeAngle: number): [[number, number], [number, number], [number, number]] {
 		const arrowZoomLevel = this.context.config.scaleArrows ? this.context.animator.getValue('zoom') : 2;
 		const x = nodeX - (linkWidth / arrowZoomLevel / 2) * Math.cos(this.context.config.arrowAngle);
 		const y = nodeY - (linkWidth / arrowZoomLevel / 2) * Math.sin(this.context.config.arrowAngle);
 		const arrowSize = (DEFAULT_ARROW_SCALE * (this.context.config.arrowSize + linkWidth)) / arrowZoomLevel;
-		const xLeft = x - arrowSize * Math.cos(nodeAngle - this.context.config.arrowAngle),
-			  yLeft = y - arrowSize * Math.sin(nodeAngle - this.context.config.arrowAngle);
-		const xRight = x - arrowSize * Math.cos(nodeAngle + this.context.config.arrowAngle),
-			  yRight = y - arrowSize * Math.sin(nodeAngle + this.context.config.arrowAngle);
+		return [
+			[x, y],
+			[x - arrowSize * Math.cos(nodeAngle - this.context.config.arrowAngle), y - arrowSize * Math.sin(nodeAngle - this.context.config.arrowAngle)],
+			[x - arrowSize * Math.cos(nodeAngle + this.context.config.arrowAngle), y - arrowSize * Math.sin(nodeAngle + this.context.config.arrowAngle)],
+		];
+	}
+
+	drawArrowHead(nodeX: number, nodeY: number, linkWidth: number, nodeAngle: number, linkColor: LinkColorKey, hovered: boolean) {
+		const [[x, y], [xLeft, yLeft], [xRight, yRight]] = this.getArrowVertices(nodeX, nodeY, linkWidth, nodeAngle);
 
 		this.arrowGraphics
 			.moveTo(x, y)
 			.lineTo(xLeft, yLeft)
 			.lineTo(xRight, yRight)
 			.lineTo(x, y)
-			.fill(this.context.animator.getValue('linkColor'));
+			.fill(this.context.animator.getValue(linkColor) as string);
 		if (hovered) {
 			this.arrowHoverGraphics.moveTo(x, y)
 				.lineTo(xLeft, yLeft)
 				.lineTo(xRight, yRight)
 				.lineTo(x, y)
-				.fill(this.context.animator.getValue('linkColorHover'));
+				.fill(this.context.animator.getValue(`${linkColor}Hover`) as string);
 		}
 	}
 
 	drawLinks(links: LinkData[]) {
-		const hovered = this.simulator.currentlyHovered !== '';
+		const hovered = this.simulator.currentlyHovered !== '' || this.simulator.searchMatches.size > 0;
 
 		this.linkGraphics.clear().zIndex = hovered ? LINK_MUTED_Z_INDEX : LINK_DEFAULT_Z_INDEX;
 		this.linkHoverGraphics.clear();
@@ -417,11 +480,23 @@ export class GraphRenderer {
 
 		for (const link of links) {
 			this.drawLink(link, hovered &&
-				(link.source.id === this.simulator.currentlyHovered ||
-				 link.target.id === this.simulator.currentlyHovered));
+				(this.simulator.isHighlighted(link.source) || this.simulator.isHighlighted(link.target)));
 		}
 	}
 
+	/**
+	 * Draw a ring around the node focused by keyboard navigation, the ring keeps the same width regardless of zoom
+	 */
+	drawFocusRing(node: NodeData | undefined) {
+		this.focusGraphics.clear();
+		if (!node) return;
+
+		const zoom = this.context.animator.getValue('zoom');
+		this.focusGraphics
+			.circle(node.x!, node.y!, node.fullRadius! + FOCUS_RING_OFFSET / zoom)
+			.stroke({ width: FOCUS_RING_WIDTH / zoom, color: this.context.animator.getValue('nodeColorHover') });
+	}
+
 	createLabel(node: NodeData) {
 		node.label = new PIXI.Text({
 			text: node.text || node.id,
@@ -0,0 +1,48 @@
+import type { NodeData } from './types';
+
+/**
+ * Score how well a query fuzzily matches a text, the characters of the query have to occur in order within the text
+ * @returns The score of the match (higher is better), or `undefined` if the text does not match
+ */
+export function fuzzyMatch(query: string, text: string): number | undefined {
+	query = query.toLowerCase();
+	text = text.toLowerCase();
+	if (!query) return 0;
+
+	let score = 0;
+	let streak = 0;
+	let position = 0;
+	for (const char of query) {
+		const index = text.indexOf(char, position);
+		if (index === -1) return undefined;
+
+		// EXPL: Consecutive characters and characters at the start of a word are worth more than scattered ones
+		streak = index === position ? streak + 1 : 0;
+		score += 1 + streak;
+		if (index === 0 || /[\s/#\-_.]/.test(text[index - 1]!)) score += 2;
+		position = index + 1;
+	}
+
+	// EXPL: Between equally good matches, shorter texts are preferred
+	return score - text.length / 100;
+}
+
+/**
+ * Find all nodes whose title, slug or tags match the query, ordered from best to worst match
+ */
+export function searchNodes(nodes: NodeData[], query: string): NodeData[] {
+	query = query.trim();
+	if (!query) return [];
+
+	const matches: { node: NodeData, score: number }[] = [];
+	for (const node of nodes) {
+		const scores = [node.text, node.id, ...(node.tags ?? [])]
+			.map(field => field ? fuzzyMatch(query, field) : undefined)
+			.filter(score => score !== undefined);
+		if (scores.length) {
+			matches.push({ node, score: Math.max(...scores) });
+		}
+	}
+
+	return matches.sort((a, b) => b.score - a.score).map(({ node }) => node);
+}
@@ -0,0 +1,61 @@
+import * as d3 from 'd3';
+
+import { applyForces, type ForceConfig, type ForceLink, type ForceNode } from './forces';
+
+export type SimulationWorkerRequest =
+	| { type: 'initialize', generation: number, nodes: ForceNode[], links: { source: string, target: string, weight?: number | undefined }[] }
+	| { type: 'update', config: ForceConfig, alpha: number }
+	| { type: 'alphaTarget', alphaTarget: number }
+	| { type: 'fix', index: number, x: number | null, y: number | null }
+	| { type: 'stop' };
+
+/**
+ * Positions of all nodes after a tick of the simulation, stored as `[x0, y0, x1, y1, ...]`
+ */
+export type SimulationWorkerResponse = { type: 'tick', generation: number, positions: Float32Array };
+
+let generation = 0;
+let nodes: ForceNode[] = [];
+let links: ForceLink<ForceNode>[] = [];
+
+const simulation = d3.forceSimulation<ForceNode>().stop().on('tick', () => {
+	const positions = new Float32Array(nodes.length * 2);
+	for (const [i, node] of nodes.entries()) {
+		positions[2 * i] = node.x!;
+		positions[2 * i + 1] = node.y!;
+	}
+	// EXPL: The buffer is transferred instead of copied, as it is not used by the worker after posting
+	self.postMessage({ type: 'tick', generation, positions } satisfies SimulationWorkerResponse, { transfer: [positions.buffer] });
+});
+
+self.addEventListener('message', (event: MessageEvent<SimulationWorkerRequest>) => {
+	const message = event.data;
+	switch (message.type) {
+		case 'initialize':
+			simulation.stop();
+			generation = message.generation;
+			nodes = message.nodes;
+			links = message.links;
+			simulation.nodes(nodes).force('link', null);
+			break;
+		case 'update':
+			applyForces(simulation.stop(), links, message.config)
+				.alpha(message.alpha)
+				.restart();
+			break;
+		case 'alphaTarget':
+			simulation.alphaTarget(message.alphaTarget).restart();
+			break;
+		case 'fix': {
+			const node = nodes[message.index];
+			if (node) {
+				node.fx = message.x;
+				node.fy = message.y;
+			}
+			break;
+		}
+		case 'stop':
+			simulation.stop();
+			break;
+	}
+});
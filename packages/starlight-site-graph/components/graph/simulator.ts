@@ -5,23 +5,46 @@ import { prefetch } from 'astro:prefetch';
 import { type GraphRenderer } from './renderer';
 import { type GraphComponent } from './graph-component';
 import { ensureLeadingSlash } from '../../sitemap/util';
+import { applyForces } from './forces';
+import { isPointInNode } from './geometry';
+import { computeLayoutTargets } from './layouts';
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from './simulation-worker';
+import { announce, describeNode } from './accessibility';
+import { clearPinnedPositions, loadPinnedPositions, savePinnedPosition } from './pinning';
+import { KEYBOARD_ZOOM_FACTOR, LONG_PRESS_DURATION, NODE_CONTEXT_MENU_EVENT, TAP_MOVE_TOLERANCE } from './constants';
+import { type MenuItem, showContextMenu } from '../elements/context-menu';
+import { icons } from '../elements/icons';
 
 export class GraphSimulator {
 	container!: HTMLCanvasElement;
 	renderer!: GraphRenderer;
 
 	simulation!: d3.Simulation<NodeData, undefined>;
+	/** Runs the forces of the simulation off the main thread, if `simulationWorker` is enabled */
+	worker: Worker | undefined;
+	workerGeneration: number = 0;
 
 	nodes!: NodeData[];
 	links!: LinkData[];
 
+	/** Spatial index of the nodes for hit-testing, rebuilt lazily after the nodes have moved */
+	quadtree: d3.Quadtree<NodeData> | undefined;
+	/** Largest radius of all nodes, determines how far around a point the quadtree has to be searched */
+	maxRadius: number = 0;
+
 	currentNode: NodeData | undefined;
 	currentlyHovered: string = '';
 	isHovering: boolean = false;
+	/** Nodes matching the current search, highlighted like the hovered node */
+	searchMatches: Set<string> = new Set();
+	/** Node focused by keyboard navigation, highlighted like the hovered node and marked by a focus ring */
+	keyboardNode: NodeData | undefined;
 
 	lastClick: number = 0;
 	lastClickedNode: NodeData | undefined;
 	requireDblClick: boolean = false;
+	/** Pending long-press of the current touch, cleared once the touch moves or ends */
+	longPressTimeout: ReturnType<typeof setTimeout> | undefined;
 
 	scale: number = 1;
 	transform: d3.ZoomTransform = d3.zoomIdentity;
@@ -48,9 +71,38 @@ export class GraphSimulator {
 		this.nodes = nodes;
 		this.links = links;
 		this.currentNode = currentNode;
+		this.quadtree = undefined;
+
+		// EXPL: Links are resolved to their nodes here, as the link force is not used by every layout, nor by the worker
+		const nodeMap = new Map(this.nodes.map(node => [node.id, node]));
+		for (const link of this.links) {
+			link.source = nodeMap.get(link.source as unknown as string) ?? link.source;
+			link.target = nodeMap.get(link.target as unknown as string) ?? link.target;
+		}
+		this.maxRadius = nodes.reduce((max, node) => Math.max(max, node.fullRadius ?? 0), 0);
+
+		const pinnedPositions = loadPinnedPositions(this.context.currentPage);
+		for (const node of this.nodes) {
+			const position = pinnedPositions[node.id];
+			if (position) {
+				node.pinned = true;
+				node.x = node.fx = position[0];
+				node.y = node.fy = position[1];
+			}
+		}
 
 		this.container = this.renderer.canvas;
 		this.simulation = d3.forceSimulation<NodeData>(this.nodes);
+		computeLayoutTargets(this.context.config.layout, this.nodes, this.links, this.currentNode, this.context.config.colliderPadding);
+
+		if (this.context.config.simulationWorker && typeof Worker !== 'undefined') {
+			// EXPL: The simulation is only used to assign the initial positions, forces are applied in the worker
+			this.simulation.stop();
+			this.initializeWorker();
+		} else if (this.worker) {
+			this.worker.terminate();
+			this.worker = undefined;
+		}
 
 		this.requireDblClick = this.context.config.enableClick === 'dblclick';
 		this.zoomTransform = d3.zoomIdentity.scale(scale);
@@ -58,11 +110,14 @@ export class GraphSimulator {
 
 		this.simulation.on('tick', () => {
 			this.requestRender = true;
+			this.quadtree = undefined;
 		});
 	}
 
 	cleanup() {
 		this.currentlyHovered = '';
+		this.searchMatches = new Set();
+		this.keyboardNode = undefined;
 		this.zoomTransform = d3.zoomIdentity;
 		this.centerTransform = d3.zoomIdentity;
 		this.transform = d3.zoomIdentity;
@@ -70,52 +125,164 @@ export class GraphSimulator {
 		this.simulation.stop();
 		this.simulation.nodes([]);
 		this.simulation.force('link', null);
+		this.postToWorker({ type: 'stop' });
 
 		d3.select(this.container).on('drag', null);
 		d3.select(this.container).on('zoom', null);
 		d3.select(this.container).on('click', null);
+		d3.select(this.container).on('contextmenu', null);
 		d3.select(this.container).on('mousemove', null);
 		d3.select(this.container).on('mouseleave', null);
+		d3.select(this.context.graphContainer).on('keydown', null);
+		d3.select(this.context.graphContainer).on('blur', null);
+		d3.select(this.container).on('.touch', null);
+		clearTimeout(this.longPressTimeout);
 	}
 
 	destroy() {
 		this.cleanup();
+		this.worker?.terminate();
+		this.worker = undefined;
 		this.simulation = undefined!;
 		this.renderer = undefined!;
 		this.context = undefined!;
 	}
 
-	update() {
-		const linkForce = d3.forceLink<NodeData, LinkData>(this.links).id((d) => d.id);
-		if (this.context.config.linkDistance) {
-			linkForce.distance(this.context.config.linkDistance);
+	/**
+	 * Apply the forces to the simulation and restart it
+	 * @param alpha - The initial alpha of the simulation, a lower value results in less movement of the nodes
+	 */
+	update(alpha: number = 1) {
+		if (this.worker) {
+			const { layout, linkDistance, linkWeightScale, repelForce, centerForce, colliderPadding, alphaDecay } = this.context.config;
+			this.postToWorker({
+				type: 'update',
+				config: { layout, linkDistance, linkWeightScale, repelForce, centerForce, colliderPadding, alphaDecay },
+				alpha,
+			});
+			return;
 		}
 
-		this.simulation
-			.stop()
-			.force('link', linkForce)
-			.force('charge', d3.forceManyBody().distanceMax(500).strength(-this.context.config.repelForce))
-			.force('forceX', d3.forceX<NodeData>().strength(this.context.config.centerForce))
-			.force('forceY', d3.forceY<NodeData>().strength(this.context.config.centerForce))
-			.force(
-				'collision',
-				d3
-					.forceCollide<NodeData>()
-					.radius(node => node.colliderSize! + this.context.config.colliderPadding),
-			)
-			.alphaDecay(this.context.config.alphaDecay)
-			.alpha(1)
+		applyForces(this.simulation.stop(), this.links, this.context.config)
+			.alpha(alpha)
 			.restart();
 	}
 
-	findOverlappingNode(x: number, y: number): NodeData | undefined {
-		for (const node of this.simulation.nodes()) {
-			if ((node.x! - x) ** 2 + (node.y! - y) ** 2 <= node.fullRadius! ** 2) {
-				return node;
+	initializeWorker() {
+		if (!this.worker) {
+			this.worker = new Worker(new URL('./simulation-worker.ts', import.meta.url), { type: 'module' });
+			this.worker.addEventListener('message', (event: MessageEvent<SimulationWorkerResponse>) => {
+				const { generation, positions } = event.data;
+				// EXPL: Positions of a previous initialization may still arrive after the graph was refreshed
+				if (generation !== this.workerGeneration || positions.length !== this.nodes.length * 2) return;
+
+				for (const [i, node] of this.nodes.entries()) {
+					node.x = positions[2 * i];
+					node.y = positions[2 * i + 1];
+				}
+				this.requestRender = true;
+				this.quadtree = undefined;
+			});
+		}
+
+		this.postToWorker({
+			type: 'initialize',
+			generation: ++this.workerGeneration,
+			nodes: this.nodes.map(({ id, x, y, fx, fy, colliderSize, targetX, targetY }) => ({ id, x, y, fx, fy, colliderSize, targetX, targetY })),
+			links: this.links.map(({ source, target, weight }) => ({ source: source.id, target: target.id, weight })),
+		});
+	}
+
+	postToWorker(message: SimulationWorkerRequest) {
+		this.worker?.postMessage(message);
+	}
+
+	setAlphaTarget(alphaTarget: number) {
+		if (this.worker) {
+			this.postToWorker({ type: 'alphaTarget', alphaTarget });
+		} else {
+			this.simulation.alphaTarget(alphaTarget).restart();
+		}
+	}
+
+	/**
+	 * Fix the position of a node, or release it if `x` and `y` are `null`
+	 */
+	fixNode(node: NodeData, x: number | null, y: number | null) {
+		node.fx = x;
+		node.fy = y;
+		if (this.worker) {
+			if (x !== null && y !== null) {
+				node.x = x;
+				node.y = y;
+				this.requestRender = true;
+				this.quadtree = undefined;
 			}
+			this.postToWorker({ type: 'fix', index: this.nodes.indexOf(node), x, y });
+		}
+	}
+
+	/**
+	 * Keep a node fixed at its current position, or release it back to the simulation
+	 * @remarks The pinned position is remembered for the graph of the current page, see `persistPinnedNodes`
+	 */
+	pinNode(node: NodeData, pinned: boolean) {
+		node.pinned = pinned;
+		if (pinned) {
+			// EXPL: A node that is being dragged is pinned where it was dropped, not where the simulation last placed it
+			const x = node.fx ?? node.x!, y = node.fy ?? node.y!;
+			this.fixNode(node, x, y);
+			savePinnedPosition(this.context.currentPage, node.id, [x, y]);
+		} else {
+			this.fixNode(node, null, null);
+			savePinnedPosition(this.context.currentPage, node.id, undefined);
+			// EXPL: Reheats the simulation, so the released node settles back into the graph
+			this.update(0.3);
+		}
+	}
+
+	/**
+	 * Release all pinned nodes of the graph, and forget their positions
+	 */
+	unpinAll() {
+		for (const node of this.nodes) {
+			if (!node.pinned) continue;
+			node.pinned = false;
+			this.fixNode(node, null, null);
 		}
+		clearPinnedPositions(this.context.currentPage);
+		this.update(0.3);
+	}
 
-		return undefined;
+	/**
+	 * Find the node whose shape contains the point, if multiple nodes overlap, the node closest to the point is returned
+	 */
+	findOverlappingNode(x: number, y: number): NodeData | undefined {
+		this.quadtree ??= d3.quadtree<NodeData>()
+			.x(node => node.x!)
+			.y(node => node.y!)
+			.addAll(this.nodes);
+
+		const radius = this.maxRadius;
+		let closestNode: NodeData | undefined;
+		let closestDistance = Infinity;
+		this.quadtree.visit((quad, x0, y0, x1, y1) => {
+			if (!quad.length) {
+				let leaf: d3.QuadtreeLeaf<NodeData> | undefined = quad as d3.QuadtreeLeaf<NodeData>;
+				do {
+					const node = leaf.data;
+					const distance = (node.x! - x) ** 2 + (node.y! - y) ** 2;
+					if (distance < closestDistance && isPointInNode(node, x, y)) {
+						closestNode = node;
+						closestDistance = distance;
+					}
+				} while ((leaf = leaf.next));
+			}
+			// EXPL: Skip quadrants that are further away than the largest node radius
+			return x0 > x + radius || x1 < x - radius || y0 > y + radius || y1 < y - radius;
+		});
+
+		return closestNode;
 	}
 
 	enableDrag() {
@@ -132,10 +299,9 @@ export class GraphSimulator {
 
 					this.userZoomed = true;
 
-					if (!e.active) this.simulation.alphaTarget(0.3).restart();
+					if (!e.active) this.setAlphaTarget(0.3);
 
-					e.subject.fx = e.subject.x;
-					e.subject.fy = e.subject.y;
+					this.fixNode(e.subject, e.subject.x, e.subject.y);
 					dragX = e.x;
 					dragY = e.y;
 				})
@@ -145,16 +311,20 @@ export class GraphSimulator {
 					dragX += e.dx / this.context.animator.getValue('zoom');
 					dragY += e.dy / this.context.animator.getValue('zoom');
 
-					e.subject.fx = dragX;
-					e.subject.fy = dragY;
+					this.fixNode(e.subject, dragX, dragY);
 				})
 				.on('end', e => {
 					if (!e.subject) return;
 
-					if (!e.active) this.simulation.alphaTarget(0);
-					if (this.currentlyHovered) this.unhoverNode();
-					e.subject.fx = null;
-					e.subject.fy = null;
+					if (!e.active) this.setAlphaTarget(0);
+					// EXPL: Tapping a node previews it, which should not be undone by the drag ending with the tap
+					if (this.currentlyHovered && !e.sourceEvent?.type.startsWith('touch')) this.unhoverNode();
+					// EXPL: Holding shift when dropping a node pins it, pinned nodes stay pinned at their new position
+					if (e.sourceEvent?.shiftKey || e.subject.pinned) {
+						this.pinNode(e.subject, true);
+					} else {
+						this.fixNode(e.subject, null, null);
+					}
 				}),
 		);
 	}
@@ -187,38 +357,354 @@ export class GraphSimulator {
 
 	unhoverNode() {
 		this.isHovering = false;
+		this.container.style.cursor = 'default';
+		// EXPL: While a search is active, the graph stays in its highlighted style
+		if (this.searchMatches.size) {
+			this.currentlyHovered = '';
+			this.requestRender = true;
+			return;
+		}
 		this.context.setStyleDefault();
 		this.context.animator.setOnFinished('nodeColorHover', () => {
 			this.currentlyHovered = '';
 			this.requestRender = false;
 		});
-		this.container.style.cursor = 'default';
+	}
+
+	/**
+	 * Check whether a node is highlighted, either by being hovered or by matching the current search
+	 */
+	isHighlighted(node: NodeData): boolean {
+		return node.id === this.currentlyHovered || this.searchMatches.has(node.id);
+	}
+
+	/**
+	 * Highlight the given nodes using the hover style, all other nodes are muted or marked as adjacent
+	 * @remarks Passing no nodes returns the graph to its default style
+	 */
+	highlightNodes(nodes: NodeData[]) {
+		this.searchMatches = new Set(nodes.map(node => node.id));
+		if (this.searchMatches.size) {
+			this.context.setStyleHovered();
+		} else if (!this.currentlyHovered) {
+			this.context.setStyleDefault();
+		}
+		this.requestRender = true;
+	}
+
+	/**
+	 * Pan the graph so that the node is centered, zooming in if the graph is zoomed out further than its default scale
+	 */
+	focusNode(node: NodeData) {
+		const k = Math.min(Math.max(this.zoomTransform.k, this.scale), this.context.config.maxZoom);
+		const [x, y] = this.centerTransform.apply([node.x!, node.y!]);
+		this.zoomTransform = new d3.ZoomTransform(
+			k,
+			this.container.clientWidth / 2 - k * x,
+			this.container.clientHeight / 2 - k * y,
+		);
+		// EXPL: Keeps the current node from being recentered, and synchronizes the d3 zoom state with the new transform
+		this.userZoomed = true;
+		this.renderer.resetZoom(this.zoomTransform);
+		this.updateTransform();
 	}
 
 	enableClick() {
 		d3.select(this.container).on('click', (e: MouseEvent) => {
 			const [x, y] = this.transform.invert([e.offsetX, e.offsetY]);
 			const closestNode = this.findOverlappingNode(x, y);
-			if (closestNode && this.isClickable(closestNode)) {
-				const clickTime = Date.now();
-				if (
-					!this.requireDblClick ||
-					(clickTime - this.lastClick < 500 && closestNode === this.lastClickedNode)
-				) {
-					if (closestNode.external) {
-						window.open(closestNode.id, '_blank');
-					} else if (this.context.config.followLink === 'graph') {
-						this.context.currentPage = closestNode.id;
-						this.context.full_refresh();
-						this.context.setStyleDefault();
-					} else {
-						window.open(ensureLeadingSlash(closestNode.id), this.context.config.followLink === 'new-tab' ? '_blank' : '_self');
-					}
+			if (closestNode) this.clickNode(closestNode);
+		});
+	}
+
+	clickNode(node: NodeData) {
+		if (!this.isClickable(node)) return;
+
+		const clickTime = Date.now();
+		if (!this.requireDblClick || (clickTime - this.lastClick < 500 && node === this.lastClickedNode)) {
+			this.followNode(node);
+		}
+		this.lastClick = clickTime;
+		this.lastClickedNode = node;
+	}
+
+	/**
+	 * Handle touch input on the canvas: tapping a node previews it (like hovering), tapping it again follows its link,
+	 * and a long-press opens the context menu of the node
+	 * @remarks Listeners are registered in the capture phase, so they run before the drag and zoom behaviors stop the event
+	 */
+	enableTouch() {
+		let start: { x: number, y: number, node: NodeData | undefined } | undefined;
+		let longPressed = false;
+
+		const getTouchedNode = (touch: Touch) => {
+			const rect = this.container.getBoundingClientRect();
+			const [x, y] = this.transform.invert([touch.clientX - rect.left, touch.clientY - rect.top]);
+			return this.findOverlappingNode(x, y);
+		};
+
+		d3.select(this.container).on('touchstart.touch', (e: TouchEvent) => {
+			clearTimeout(this.longPressTimeout);
+			longPressed = false;
+			if (e.touches.length !== 1) {
+				start = undefined;
+				return;
+			}
+
+			const touch = e.touches[0]!;
+			const node = getTouchedNode(touch);
+			start = { x: touch.clientX, y: touch.clientY, node };
+			if (node) {
+				this.longPressTimeout = setTimeout(() => {
+					longPressed = true;
+					this.showNodeContextMenu(touch, node);
+				}, LONG_PRESS_DURATION);
+			}
+		}, { capture: true });
+
+		d3.select(this.container).on('touchmove.touch', (e: TouchEvent) => {
+			const touch = e.touches[0];
+			if (start && touch && Math.hypot(touch.clientX - start.x, touch.clientY - start.y) > TAP_MOVE_TOLERANCE) {
+				clearTimeout(this.longPressTimeout);
+				start = undefined;
+			}
+		}, { capture: true });
+
+		d3.select(this.container).on('touchend.touch touchcancel.touch', (e: TouchEvent) => {
+			clearTimeout(this.longPressTimeout);
+			if (longPressed) {
+				// EXPL: Prevents the click emulated by the browser from closing the context menu again
+				e.preventDefault();
+				longPressed = false;
+				return;
+			}
+			if (!start || e.type === 'touchcancel' || e.touches.length) return;
+
+			const node = start.node;
+			start = undefined;
+			if (!node) {
+				if (this.currentlyHovered) this.unhoverNode();
+				return;
+			}
+
+			// EXPL: The emulated mouse events would otherwise hover and click the node right after the tap
+			e.preventDefault();
+			if (this.context.config.enableHover && this.currentlyHovered !== node.id) {
+				this.currentlyHovered = node.id;
+				this.isHovering = true;
+				if (this.context.config.prefetchPages && node !== this.currentNode && !node.external) {
+					prefetch(ensureLeadingSlash(node.id));
+				}
+				this.context.setStyleHovered();
+				this.requestRender = true;
+			} else if (this.context.enableClick && this.isClickable(node)) {
+				this.followNode(node);
+			}
+		}, { capture: true });
+
+		// EXPL: Single finger gestures scroll the page, pinching and panning with two fingers is handled by the zoom behavior
+		this.container.style.touchAction = 'pan-x pan-y';
+	}
+
+	enableContextMenu() {
+		d3.select(this.container).on('contextmenu', (e: MouseEvent) => {
+			const [x, y] = this.transform.invert([e.offsetX, e.offsetY]);
+			const closestNode = this.findOverlappingNode(x, y);
+			if (closestNode) {
+				// EXPL: The browser's own context menu is kept for the empty space of the canvas
+				e.preventDefault();
+				this.showNodeContextMenu(e, closestNode);
+			}
+		});
+	}
+
+	/**
+	 * Show the context menu of a node at the position of a mouse or touch event
+	 * @remarks Before the menu is shown, a `NODE_CONTEXT_MENU_EVENT` is dispatched on the graph component,
+	 *   listeners can add their own entries to `detail.items`, or prevent the menu from being shown altogether
+	 */
+	showNodeContextMenu(position: { clientX: number, clientY: number }, node: NodeData) {
+		const items: MenuItem[] = [];
+		const url = node.external ? node.id : ensureLeadingSlash(node.id);
+		const isPage = this.isClickable(node) || node === this.currentNode;
+
+		if (this.context.enableClick && this.isClickable(node)) {
+			items.push(
+				{ text: 'Open', icon: icons.link, onClick: () => this.followNode(node) },
+				{ text: 'Open in New Tab', icon: icons.newTab, onClick: () => window.open(url, '_blank') },
+			);
+		}
+
+		if (!node.external && node.type !== 'tag' && node.id !== this.context.currentPage) {
+			items.push({ group: 'graph', text: 'Focus Graph Here', icon: icons.focus, onClick: () => this.recenterGraph(node) });
+		}
+		items.push({
+			group: 'graph',
+			text: node.pinned ? 'Unpin Position' : 'Pin Position',
+			icon: node.pinned ? icons.pinOff : icons.pin,
+			onClick: () => this.pinNode(node, !node.pinned),
+		});
+
+		// EXPL: The node of the current page is never filtered out
+		if (node.id !== this.context.currentPage) {
+			items.push({ group: 'filter', text: 'Hide Node', icon: icons.hide, onClick: () => {
+				this.context.setFilter({ ...this.context.filter, hiddenNodes: [...this.context.filter.hiddenNodes, node.id] });
+			}});
+		}
+		for (const tag of node.type === 'tag' ? [node.id] : node.tags ?? []) {
+			items.push({ group: 'filter', text: `Show Only ${tag}`, icon: icons.tag, onClick: () => {
+				this.context.setFilter({ ...this.context.filter, onlyTags: [tag] });
+			}});
+		}
+
+		if (isPage) {
+			items.push({ group: 'link', text: 'Copy Link', icon: icons.copy, onClick: () => {
+				navigator.clipboard.writeText(new URL(url, location.href).href).catch(e => {
+					console.error('[STARLIGHT-SITE-GRAPH] ' + (e instanceof Error ? e.message : e));
+				});
+			}});
+		}
+
+		const event = new CustomEvent(NODE_CONTEXT_MENU_EVENT, {
+			detail: {
+				node: { id: node.id, title: node.text || node.id, url: isPage ? url : undefined, type: node.type ?? 'node', tags: node.tags ?? [] },
+				items,
+			},
+			bubbles: true,
+			cancelable: true,
+		});
+		if (!this.context.dispatchEvent(event) || !items.length) return;
+
+		showContextMenu({ clientX: position.clientX, clientY: position.clientY, preventDefault: () => {} }, items);
+	}
+
+	/**
+	 * Show the graph of another page in place of the current one, without navigating to it
+	 */
+	recenterGraph(node: NodeData) {
+		this.context.currentPage = node.id;
+		this.context.full_refresh();
+		this.context.setStyleDefault();
+	}
+
+	/**
+	 * Navigate to the page of a node, as determined by `followLink`
+	 */
+	followNode(node: NodeData) {
+		if (node.external) {
+			window.open(node.id, '_blank');
+		} else if (this.context.config.followLink === 'graph') {
+			this.recenterGraph(node);
+		} else {
+			window.open(ensureLeadingSlash(node.id), this.context.config.followLink === 'new-tab' ? '_blank' : '_self');
+		}
+	}
+
+	enableKeyboard() {
+		d3.select(this.context.graphContainer).on('keydown', (e: KeyboardEvent) => {
+			// EXPL: Keys pressed within the action buttons or popups are handled by those elements
+			if (e.target !== this.context.graphContainer || e.altKey || e.ctrlKey || e.metaKey) return;
+
+			if (e.key.startsWith('Arrow')) {
+				const angle = { ArrowRight: 0, ArrowDown: Math.PI / 2, ArrowLeft: Math.PI, ArrowUp: -Math.PI / 2 }[e.key];
+				if (angle === undefined) return;
+				const node = this.keyboardNode
+					? this.getNeighbourInDirection(this.keyboardNode, angle)
+					: (this.currentNode ?? this.nodes[0]);
+				if (node) this.setKeyboardNode(node);
+				e.preventDefault();
+			} else if (e.key === 'Tab') {
+				// EXPL: Nodes are visited outwards from the current node, Tab only leaves the graph after the last node
+				const order = this.getTraversalOrder();
+				const index = this.keyboardNode ? order.indexOf(this.keyboardNode) : (e.shiftKey ? order.length : -1);
+				const node = order[index + (e.shiftKey ? -1 : 1)];
+				if (node) {
+					this.setKeyboardNode(node);
+					e.preventDefault();
+				} else {
+					this.setKeyboardNode(undefined);
+				}
+			} else if (e.key === 'Enter') {
+				if (this.keyboardNode && this.context.enableClick && this.isClickable(this.keyboardNode)) {
+					this.followNode(this.keyboardNode);
+					e.preventDefault();
 				}
-				this.lastClick = clickTime;
-				this.lastClickedNode = closestNode;
+			} else if (e.key === '+' || e.key === '=' || e.key === '-') {
+				if (this.zoomBehavior && this.context.config.enableZoom) {
+					d3.select(this.container).call(this.zoomBehavior.scaleBy, e.key === '-' ? 1 / KEYBOARD_ZOOM_FACTOR : KEYBOARD_ZOOM_FACTOR);
+					e.preventDefault();
+				}
+			} else if (e.key === 'Escape') {
+				this.setKeyboardNode(undefined);
 			}
 		});
+
+		d3.select(this.context.graphContainer).on('blur', () => {
+			this.setKeyboardNode(undefined);
+		});
+	}
+
+	/**
+	 * Move the keyboard focus to a node, panning the graph to it and announcing it to assistive technologies
+	 * @remarks Passing no node removes the keyboard focus, and returns the graph to its default style
+	 */
+	setKeyboardNode(node: NodeData | undefined) {
+		if (node === this.keyboardNode) return;
+		this.keyboardNode = node;
+		if (node) {
+			this.currentlyHovered = node.id;
+			this.isHovering = true;
+			this.context.setStyleHovered();
+			this.focusNode(node);
+			announce(this.context, describeNode(this.context, node));
+		} else if (this.currentlyHovered) {
+			this.unhoverNode();
+		}
+		this.requestRender = true;
+	}
+
+	/**
+	 * Get the adjacent node whose direction from the node is closest to the given angle, within a quarter turn
+	 */
+	getNeighbourInDirection(node: NodeData, angle: number): NodeData | undefined {
+		let closest: NodeData | undefined;
+		let closestScore = Infinity;
+		for (const neighbour of this.nodes) {
+			if (!node.adjacent.has(neighbour.id) && !neighbour.adjacent.has(node.id)) continue;
+
+			const dx = neighbour.x! - node.x!, dy = neighbour.y! - node.y!;
+			const difference = Math.abs(((Math.atan2(dy, dx) - angle + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+			if (difference >= Math.PI / 2) continue;
+
+			// EXPL: Nodes closer to the exact direction are preferred, distance only breaks near-ties
+			const score = difference + Math.hypot(dx, dy) / 10000;
+			if (score < closestScore) {
+				closest = neighbour;
+				closestScore = score;
+			}
+		}
+		return closest;
+	}
+
+	/**
+	 * Get all nodes in breadth-first order from the current node, so adjacent nodes are visited consecutively
+	 * @remarks Nodes that cannot be reached from the current node are visited last
+	 */
+	getTraversalOrder(): NodeData[] {
+		const nodeMap = new Map(this.nodes.map(node => [node.id, node]));
+		const start = this.currentNode ?? this.nodes[0];
+		const order: NodeData[] = start ? [start] : [];
+		const visited = new Set(order);
+		for (let i = 0; i < order.length; i++) {
+			for (const id of [...order[i]!.adjacent].sort()) {
+				const neighbour = nodeMap.get(id);
+				if (neighbour && !visited.has(neighbour)) {
+					visited.add(neighbour);
+					order.push(neighbour);
+				}
+			}
+		}
+		return [...order, ...this.nodes.filter(node => !visited.has(node))];
 	}
 
 	enableZoom() {
@@ -248,21 +734,17 @@ export class GraphSimulator {
 			)
 		);
 
-		if (!this.context.config.enablePan) {
-			this.zoomBehavior.filter((event) => {
-				return event.type !== 'mousedown';
-			});
-		}
-
-		if (!this.context.config.enableZoom) {
-			this.zoomBehavior.filter((event) => {
-				return event.type !== 'wheel' && !(event.type === 'touchstart' && event.touches.length >= 2);
-			});
-		}
+		this.zoomBehavior.filter((event) => {
+			if (event.type === 'mousedown') return this.context.config.enablePan && !event.ctrlKey && !event.button;
+			if (event.type === 'wheel') return this.context.config.enableZoom;
+			// EXPL: Single finger touches are left to the page (scrolling) and the touch handlers (tapping and dragging nodes)
+			if (event.type === 'touchstart') return event.touches.length >= 2;
+			return !event.ctrlKey && !event.button;
+		});
 	}
 
 	isClickable(node: NodeData): boolean {
-		return node.exists && !(node.type === 'tag' || node.id === this.currentNode?.id);
+		return node.exists && !(node.type === 'tag' || node.type === 'folder' || node.id === this.currentNode?.id);
 	}
 
 	resetZoom(immediate: boolean = false) {
@@ -284,7 +766,7 @@ export class GraphSimulator {
 			transformX: x ?? this.transform.x,
 			transformY: y ?? this.transform.y,
 		};
-		if (!this.currentlyHovered) {
+		if (!this.currentlyHovered && !this.searchMatches.size) {
 			values.labelOpacity = this.getCurrentLabelOpacity(this.transform.k);
 		}
 
@@ -1,6 +1,15 @@
 import * as PIXI from './pixi/pixi';
 import * as d3 from 'd3';
-import type { NodeStyle } from '../config';
+import type { LinkStyle, LinkType, NodeStyle } from '../../config';
+
+/**
+ * Style of a node once it has been processed for the graph, with its rotation in radians and its corner radii in pts
+ */
+type ProcessedNodeStyle = Omit<NodeStyle, 'shapeRotation' | 'shapeCornerRadius' | 'strokeCornerRadius'> & {
+	shapeRotation: number;
+	shapeCornerRadius: number;
+	strokeCornerRadius: number;
+};
 
 type NodeData = {
 	id: string;
@@ -8,22 +17,34 @@ type NodeData = {
 	external: boolean;
 	text?: string;
 	tags?: string[];
-	type?: 'node' | 'tag';
+	/** Shown in the preview card of the node, see `renderPreview` */
+	description?: string;
+	backlinkCount?: number;
+	type?: 'node' | 'tag' | 'heading' | 'folder';
 	adjacent: Set<string>;
+	/** Whether the node is kept at its position by the user, instead of being moved by the simulation */
+	pinned?: boolean;
 
 	computedSize?: number;
 	colliderSize?: number;
 	fullRadius?: number;
 
+	/** Position of the node in the layout, see `computeLayoutTargets` */
+	targetX?: number;
+	targetY?: number;
+
 	node?: PIXI.Graphics;
 	stroke?: PIXI.Graphics;
 	label?: PIXI.Text;
-} & d3.SimulationNodeDatum & Partial<NodeStyle>;
+} & d3.SimulationNodeDatum & Partial<ProcessedNodeStyle>;
 
 type LinkData = {
 	source: NodeData;
 	target: NodeData;
-};
+	type: LinkType;
+	/** Number of times the source links to the target, see `linkWeights` */
+	weight?: number;
+} & Partial<LinkStyle>;
 
 interface AnimatedValues {
 	zoom: number;
@@ -77,3 +98,8 @@ interface AnimatedValues {
 	labelColorHover: string;
 	labelScaleHover: number;
 }
+
+/** Animated colors that have a hover variant, and which can thus be used as the color of a link */
+type LinkColorKey = {
+	[K in keyof AnimatedValues]: AnimatedValues[K] extends string ? `${K}Hover` extends keyof AnimatedValues ? K : never : never;
+}[keyof AnimatedValues];
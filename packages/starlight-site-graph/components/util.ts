@@ -1,5 +1,4 @@
 import config from 'virtual:starlight-site-graph/config';
-import { setSlashes } from '../sitemap/util';
 
 export function getVisitedEndpoints(): Set<string> {
 	if (config.trackVisitedPages === 'disable') return new Set();
@@ -13,20 +12,6 @@ export function getVisitedEndpoints(): Set<string> {
 	);
 }
 
-export function simplifySlug(fp: string, trailingSlash: boolean): string {
-	// TODO: Figure out why 'index' was added
-	return setSlashes(trimSuffix(fp, 'index'), true, trailingSlash);
-}
-
-export function endsWith(s: string, suffix: string): boolean {
-	return s === suffix || s.endsWith('/' + suffix);
-}
-
-export function trimSuffix(s: string, suffix: string): string {
-	if (endsWith(s, suffix)) s = s.slice(0, -suffix.length);
-	return s;
-}
-
 export function onClickOutside(target: HTMLElement, callback: () => void) {
 	function handleClickOutside(event: MouseEvent) {
 		if (!target.contains(event.target as HTMLElement)) {
@@ -91,6 +76,24 @@ export function createValueSlider(
 	return container;
 }
 
+export function createToggle(label: string, value: boolean, onChange: (value: boolean) => void) {
+	const container = document.createElement('label');
+	container.className = 'slsg-toggle';
+
+	const checkbox = document.createElement('input');
+	checkbox.type = 'checkbox';
+	checkbox.checked = value;
+	checkbox.onchange = () => onChange(checkbox.checked);
+	container.appendChild(checkbox);
+
+	const labelElement = document.createElement('span');
+	labelElement.className = 'slsg-toggle-label';
+	labelElement.innerText = label;
+	container.appendChild(labelElement);
+
+	return container;
+}
+
 export function isMobileDevice() {
 	let check = false;
 	(function (a) {
@@ -3,17 +3,20 @@ import { z } from 'astro/zod';
 import { globalGraphConfigSchema, globalGraphConfig } from './graph';
 import { globalSitemapConfigSchema, globalSitemapConfig } from './sitemap';
 import { globalBacklinksConfigSchema, globalBacklinksConfig } from './backlinks';
+import { globalReportConfigSchema, globalReportConfig } from './report';
 
 
 export const starlightSiteGraphConfig = {
 	debug: false,
 	overridePageSidebar: true,
 	trackVisitedPages: 'session' as 'disable' | 'session' | 'local',
+	persistPinnedNodes: 'session' as 'disable' | 'session' | 'local',
 	graph: true,
 	graphConfig: globalGraphConfig,
 	sitemapConfig: globalSitemapConfig,
 	backlinks: true,
 	backlinksConfig: globalBacklinksConfig,
+	reportConfig: globalReportConfig,
 }
 
 export const starlightSiteGraphConfigSchema = z
@@ -50,6 +53,20 @@ export const starlightSiteGraphConfigSchema = z
 			.union([z.literal('disable'), z.literal('session'), z.literal('local')])
 			.default(starlightSiteGraphConfig.trackVisitedPages as 'disable' | 'session' | 'local'),
 
+		/**
+		 * Whether to remember the positions of nodes that were pinned by the user, for the graph of each page.
+		 * Nodes are pinned by dragging them while holding `Shift`, or through their context menu. \
+		 * The pinned positions can be stored in:
+		 * - `disable`: Do not store pinned positions, nodes are unpinned when the graph is refreshed
+		 * - `session`: Store pinned positions for the current session
+		 * - `local`: Store pinned positions across sessions
+		 *
+		 * @default "session"
+		 */
+		persistPinnedNodes: z
+			.union([z.literal('disable'), z.literal('session'), z.literal('local')])
+			.default(starlightSiteGraphConfig.persistPinnedNodes as 'disable' | 'session' | 'local'),
+
 		/**
 		 * Whether to add a graph component to the sidebar, acts as a global toggle for the graph.
 		 *
@@ -74,6 +91,7 @@ export const starlightSiteGraphConfigSchema = z
 		 *     enableZoom: true,
 		 *     enableHover: true,
 		 *     enableClick: 'auto',
+		 *     enableKeyboard: true,
 		 *     depth: 1,
 		 *     depthDirection: 'both',
 		 *     scale: 1.1,
@@ -82,7 +100,9 @@ export const starlightSiteGraphConfigSchema = z
 		 *
 		 *     renderLabels: true,
 		 *     renderArrows: true,
+		 *     renderPreview: false,
 		 *     renderUnresolved: false,
+		 *     renderLinkTypes: ['body', 'frontmatter', 'tag', 'external', 'hierarchy'],
 		 *
 		 *     scaleLinks: true,
 		 *     scaleArrows: false,
@@ -114,19 +134,34 @@ export const starlightSiteGraphConfigSchema = z
 		 *	   nodeCurrentStyle: { shapeColor: "nodeColorCurrent" },
 		 *	   nodeUnresolvedStyle: { shapeColor: "nodeColorUnresolved" },
 		 *	   nodeExternalStyle: { shape: "square", shapeColor: "nodeColorExternal", strokeColor: "inherit", nodeScale: 0.8 },
+		 *	   nodeHeadingStyle: { nodeScale: 0.5, neighborScale: 0 },
+		 *	   nodeOrphanStyle: {},
+		 *	   nodeFolderStyle: { shape: "square", shapeColor: "backgroundColor", strokeColor: "nodeColor", strokeWidth: 2 },
 		 *	   tagDefaultStyle: { shape: 'circle', shapeSize: 6, shapeColor: 'backgroundColor', strokeColor: "nodeColorTag", strokeWidth: 1, colliderScale: 1, nodeScale: 1, neighborScale: 0.7 },
 		 *
 		 *     linkWidth: 1,
 		 *     linkHoverWidth: 1,
+		 *     linkStyles: {
+		 *       body: {},
+		 *       frontmatter: {},
+		 *       tag: { renderArrow: false },
+		 *       external: {},
+		 *       hierarchy: { dashPattern: [4, 3], renderArrow: false }
+		 *     },
 		 *
 		 *     arrowSize: 5,
 		 *     arrowAngle: Math.PI / 6,
 		 *
+		 *     layout: 'force',
 		 *     centerForce: 0.05,
 		 *	   colliderPadding: 20,
 		 *     repelForce: 200,
 		 *     linkDistance: 0,
-		 *     alphaDecay: 0.0228
+		 *     linkWeightScale: 0,
+		 *     alphaDecay: 0.0228,
+		 *
+		 *     precomputeLayout: false,
+		 *     simulationWorker: false
 		 * }```
 		 */
 		graphConfig: globalGraphConfigSchema.default(starlightSiteGraphConfig.graphConfig),
@@ -159,6 +194,18 @@ export const starlightSiteGraphConfigSchema = z
 		 * }```
 		 */
 		backlinksConfig: globalBacklinksConfigSchema.default(starlightSiteGraphConfig.backlinksConfig),
+
+		/**
+		 * Configuration for the reports generated when the build is done.
+		 *
+		 * @default ```{
+		 *   logBrokenLinks: true,
+		 *   brokenLinksReport: "none",
+		 *   failOnBrokenLinks: false,
+		 *   analyzePages: false,
+		 * }```
+		 */
+		reportConfig: globalReportConfigSchema.default(starlightSiteGraphConfig.reportConfig),
 	})
 	.partial()
 	.default({});
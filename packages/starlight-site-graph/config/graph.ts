@@ -2,8 +2,9 @@ import { z } from 'astro/zod';
 
 import {
 	nodeStyleSchema, nodeDefaultStyle, nodeExternalStyle, nodeCurrentStyle,
-	nodeUnresolvedStyle, nodeVisitedStyle, tagDefaultStyle
+	nodeUnresolvedStyle, nodeVisitedStyle, nodeHeadingStyle, nodeOrphanStyle, nodeFolderStyle, tagDefaultStyle
 } from './node';
+import { linkStyleSchema, linkStyles, linkTypeSchema, type LinkType } from './link';
 
 const easingTypes = z.union([
 	z.literal('in_quad'),
@@ -13,7 +14,7 @@ const easingTypes = z.union([
 ]);
 
 const graphConfig = {
-	actions: ['fullscreen', 'depth', 'reset-zoom', 'render-arrows', 'settings'] as ('fullscreen' | 'depth' | 'reset-zoom' | 'render-arrows' | 'settings')[],
+	actions: ['fullscreen', 'depth', 'reset-zoom', 'render-arrows', 'settings'] as ('fullscreen' | 'depth' | 'reset-zoom' | 'reset-layout' | 'render-arrows' | 'render-hierarchy' | 'link-types' | 'layout' | 'search' | 'filter' | 'export' | 'settings')[],
 	tagStyles: {},
 	tagRenderMode: 'none' as ('none' | 'node' | 'same' | 'both'),
 	nodeInclusionRules: ['**/*'] as const,
@@ -23,6 +24,7 @@ const graphConfig = {
 	enablePan: true,
 	enableHover: true,
 	enableClick: 'auto' as ('auto' | 'disable' | 'click' | 'dblclick'),
+	enableKeyboard: true,
 	depth: 1,
 	depthDirection: 'both' as ('both' | 'incoming' | 'outgoing'),
 	followLink: 'same' as ('same' | 'new-tab' | 'graph'),
@@ -31,8 +33,12 @@ const graphConfig = {
 	maxZoom: 4,
 	renderLabels: true,
 	renderArrows: false,
+	renderPreview: false,
 	renderUnresolved: false,
 	renderExternal: true,
+	renderHeadings: true,
+	renderHierarchy: true,
+	renderLinkTypes: ['body', 'frontmatter', 'tag', 'external', 'hierarchy'] as LinkType[],
 	scaleLinks: true,
 	scaleArrows: true,
 	minZoomArrows: 0.8,
@@ -53,16 +59,24 @@ const graphConfig = {
 	nodeCurrentStyle: nodeCurrentStyle,
 	nodeUnresolvedStyle: nodeUnresolvedStyle,
 	nodeExternalStyle: nodeExternalStyle,
+	nodeHeadingStyle: nodeHeadingStyle,
+	nodeOrphanStyle: nodeOrphanStyle,
+	nodeFolderStyle: nodeFolderStyle,
 	tagDefaultStyle: tagDefaultStyle,
 	linkWidth: 1,
 	linkHoverWidth: 1,
+	linkStyles: linkStyles,
 	arrowSize: 5,
 	arrowAngle: Math.PI / 6,
+	layout: 'force' as ('force' | 'radial' | 'tree' | 'circular'),
 	centerForce: 0.05,
 	colliderPadding: 20,
 	repelForce: 200,
 	linkDistance: 0,
+	linkWeightScale: 0,
 	alphaDecay: 0.0228,
+	precomputeLayout: false,
+	simulationWorker: false,
 };
 export const globalGraphConfig = {
 	...graphConfig,
@@ -76,9 +90,17 @@ export const graphConfigSchema = z.object({
 	 * - `fullscreen`: Toggle fullscreen mode
 	 * - `depth`: Increase the depth of the graph
 	 * - `reset-zoom`: Reset the zoom level and center the graph on node of current page
+	 * - `reset-layout`: Unpin all nodes that were pinned by the user
 	 * - `render-arrows`: Toggle the rendering of arrows
 	 * - `render-external`: Toggle the rendering of nodes representing external pages
 	 * - `render-unresolved`: Toggle the rendering of nodes representing unresolved pages
+	 * - `render-headings`: Toggle between rendering headings as separate nodes, or collapsing them into their page
+	 * - `render-hierarchy`: Toggle the rendering of the folder hierarchy of pages
+	 * - `link-types`: Choose which types of links are rendered
+	 * - `layout`: Switch between the available layouts of the graph
+	 * - `search`: Search for pages by their title, slug or tags, and pan to the selected page
+	 * - `filter`: Choose which tags, sections and kinds of nodes are shown, the choice is remembered across pages
+	 * - `export`: Download the current view of the graph as an SVG or PNG image
 	 * - `settings`: Open the simulation settings modal
 	 *
 	 * @default ["fullscreen", "depth", "reset-zoom", "render-arrows", "settings"]
@@ -89,9 +111,17 @@ export const graphConfigSchema = z.object({
 				z.literal('fullscreen'),
 				z.literal('depth'),
 				z.literal('reset-zoom'),
+				z.literal('reset-layout'),
 				z.literal('render-arrows'),
 				z.literal('render-external'),
 				z.literal('render-unresolved'),
+				z.literal('render-headings'),
+				z.literal('render-hierarchy'),
+				z.literal('link-types'),
+				z.literal('layout'),
+				z.literal('search'),
+				z.literal('filter'),
+				z.literal('export'),
 				z.literal('settings')
 			]),
 		)
@@ -168,6 +198,14 @@ export const graphConfigSchema = z.object({
 	enableClick: z
 		.union([z.literal('auto'), z.literal('disable'), z.literal('click'), z.literal('dblclick')])
 		.default(graphConfig.enableClick),
+	/**
+	 * Whether to enable keyboard navigation of the graph
+	 * This includes moving between nodes with the arrow keys and Tab, following links with Enter, and zooming with +/-
+	 *
+	 * @remarks The list of nodes and links read by screen readers is always available
+	 * @default true
+	 */
+	enableKeyboard: z.boolean().default(graphConfig.enableKeyboard),
 
 
 	/**
@@ -255,6 +293,14 @@ export const graphConfigSchema = z.object({
 	 * @default true
 	 */
 	renderArrows: z.boolean().default(graphConfig.renderArrows),
+	/**
+	 * Whether to show a card with the details of a node while it is hovered,
+	 * containing the title, description, tags and number of backlinks of the page
+	 *
+	 * @remarks Descriptions are only available if `includeDescriptions` of `sitemapConfig` is enabled
+	 * @default false
+	 */
+	renderPreview: z.boolean().default(graphConfig.renderPreview),
 	/**
 	 * Whether to render unresolved pages in the graph
 	 *
@@ -268,6 +314,34 @@ export const graphConfigSchema = z.object({
 	 * @default true
 	 */
 	renderExternal: z.boolean().default(graphConfig.renderExternal),
+	/**
+	 * Whether to render headings as smaller satellite nodes connected to their page. \
+	 * If disabled, headings are collapsed into their page, and links to a heading will link to its page instead.
+	 *
+	 * @remarks Heading nodes only exist in the sitemap if `includeHeadings` of `sitemapConfig` is set to `true`.
+	 * @default true
+	 */
+	renderHeadings: z.boolean().default(graphConfig.renderHeadings),
+	/**
+	 * Whether to render the folder hierarchy of pages, as links between every page and its parent. \
+	 * If the hierarchy includes folders, folders without a page of their own are rendered as separate nodes.
+	 *
+	 * @remarks The hierarchy only exists in the sitemap if `hierarchy` of `sitemapConfig` is enabled.
+	 * @default true
+	 */
+	renderHierarchy: z.boolean().default(graphConfig.renderHierarchy),
+	/**
+	 * The types of links rendered in the graph, links of any other type are not rendered or followed
+	 * - `body`: Links found in the content of a page
+	 * - `frontmatter`: Links listed in the `links` field of the frontmatter of a page
+	 * - `tag`: Links between a page and its tags, only exist if `tagRenderMode` is `node` or `both`
+	 * - `external`: Links to external pages
+	 * - `hierarchy`: Links between a page and its parent in the folder hierarchy
+	 *
+	 * @remarks Nodes that are only connected to the current page by hidden links are not part of the graph.
+	 * @default ["body", "frontmatter", "tag", "external", "hierarchy"]
+	 */
+	renderLinkTypes: z.array(linkTypeSchema).default(graphConfig.renderLinkTypes),
 
 	/**
 	 * Whether to scale the links based on the zoom level
@@ -422,6 +496,35 @@ export const graphConfigSchema = z.object({
 	nodeExternalStyle: nodeStyleSchema
 		.partial()
 		.optional(),
+	/**
+	 * The style of node representing a heading of a page in the graph. \
+	 * This style overwrites styles defined in `nodeDefaultStyle`.
+	 *
+	 * @default { nodeScale: 0.5, neighborScale: 0 }
+	 */
+	nodeHeadingStyle: nodeStyleSchema
+		.partial()
+		.optional(),
+	/**
+	 * The style of node representing an orphan page in the graph, i.e. an existing page without any backlinks. \
+	 * This style overwrites styles defined in `nodeDefaultStyle`, `nodeVisitedStyle` and matching `tagStyles`.
+	 *
+	 * @remarks A link to any of the headings of a page counts as a backlink to the page.
+	 * @default {}
+	 */
+	nodeOrphanStyle: nodeStyleSchema
+		.partial()
+		.optional(),
+	/**
+	 * The style of node representing a folder without a page of its own in the graph. \
+	 * This style overwrites styles defined in `nodeDefaultStyle`.
+	 *
+	 * @remarks Folder nodes only exist in the sitemap if `hierarchy` of `sitemapConfig` is set to `folders`.
+	 * @default { shape: "square", shapeColor: "backgroundColor", strokeColor: "nodeColor", strokeWidth: 2 }
+	 */
+	nodeFolderStyle: nodeStyleSchema
+		.partial()
+		.optional(),
 	/**
 	 * Default style of tag nodes in the graph
 	 *
@@ -443,6 +546,16 @@ export const graphConfigSchema = z.object({
 	 * @default 1
 	 */
 	linkHoverWidth: z.number().min(0, "Hover link width may not be negative").default(1),
+	/**
+	 * Define color, width, dash pattern and arrows of every type of link in the graph, see `renderLinkTypes` for all types
+	 *
+	 * @default { body: {}, frontmatter: {}, tag: { renderArrow: false }, external: {}, hierarchy: { dashPattern: [4, 3], renderArrow: false } }
+	 * @example Frontmatter links are drawn as dotted lines in the color of the current page
+	 * { "frontmatter": { color: "nodeColorCurrent", dashPattern: [1, 2] } }
+	 */
+	linkStyles: z
+		.record(linkTypeSchema, linkStyleSchema.partial())
+		.default(graphConfig.linkStyles),
 
 	/**
 	 * The size of the arrows on the links
@@ -457,6 +570,20 @@ export const graphConfigSchema = z.object({
 	 */
 	arrowAngle: z.number().min(0, "Arrow angle may not be negative").default(Math.PI / 6),
 
+	/**
+	 * The layout algorithm that determines the positions of the nodes in the graph
+	 * - `force`: Nodes are positioned by the force simulation, configured by the options below
+	 * - `radial`: The current page is placed in the center, with rings of nodes by their distance to the current page
+	 * - `tree`: Nodes are placed in a top-down tree following the directory structure of their slugs
+	 * - `circular`: The current page is placed in the center, with all other nodes on a circle around it
+	 *
+	 * @remarks In all layouts other than `force`, nodes are pulled towards their position in the layout,
+	 *   the simulation options besides `colliderPadding` and `alphaDecay` have no effect.
+	 * @default "force"
+	 */
+	layout: z
+		.union([z.literal('force'), z.literal('radial'), z.literal('tree'), z.literal('circular')])
+		.default(graphConfig.layout),
 	/**
 	 * The strength of the force that pulls nodes towards the center of the graph. \
 	 * A higher value will bring nodes closer together
@@ -485,6 +612,16 @@ export const graphConfigSchema = z.object({
 	 * @default 0
 	 */
 	linkDistance: z.number().min(0, "Link distance may not be negative").default(0),
+	/**
+	 * How strongly the weight of a link (the number of times a page links to another page) affects the link. \
+	 * Links with a higher weight are drawn thicker, and pull their nodes closer together, so strongly connected pages cluster together.
+	 * If set to 0, all links are treated equally.
+	 *
+	 * @remarks Link weights only exist in the sitemap if `linkWeights` of `sitemapConfig` is enabled.
+	 *   The width and strength of a link are scaled by `1 + linkWeightScale * log2(weight)`.
+	 * @default 0
+	 */
+	linkWeightScale: z.number().min(0, "Link weight scale may not be negative").default(graphConfig.linkWeightScale),
 	/**
 	 * The speed at which the graph stabilizes after a simulation update. \
 	 * A higher value will make the graph stabilize faster, but may result in a less accurate layout. \
@@ -493,8 +630,28 @@ export const graphConfigSchema = z.object({
 	 * @default 0.228
 	 */
 	alphaDecay: z.number().min(0, "Alpha decay may not be negative").max(1, "Alpha decay may not be greater than 1").default(0.0228),
+	/**
+	 * Whether the layout of the graph is computed at build time. \
+	 * If enabled, the force simulation is run on the full sitemap during the build, and the graph
+	 * starts from the resulting positions instead of from random positions, and thus settles almost immediately.
+	 *
+	 * @remarks Only the layout of the global `graphConfig` is computed at build time,
+	 *   enabling this option for a single page has no effect if it was not enabled globally.
+	 *   Only applies to the `force` layout.
+	 * @default false
+	 */
+	precomputeLayout: z.boolean().default(graphConfig.precomputeLayout),
+	/**
+	 * Whether the force simulation of the graph runs in a Web Worker. \
+	 * If enabled, the positions of the nodes are computed off the main thread, which keeps the page responsive
+	 * while large graphs are being simulated.
+	 *
+	 * @default false
+	 */
+	simulationWorker: z.boolean().default(graphConfig.simulationWorker),
 }).partial()
 export type GraphConfig = z.infer<typeof graphConfigSchema>;
+export type GraphLayout = NonNullable<GraphConfig['layout']>;
 
 export const globalGraphConfigSchema = graphConfigSchema.extend({
 	/**
@@ -67,10 +67,13 @@ export type RemoveOptional<T> =
 
 export type FullStarlightSiteGraphConfig = RemoveOptional<StarlightSiteGraphConfig>;
 export { starlightSiteGraphConfig, starlightSiteGraphConfigSchema, type StarlightSiteGraphConfig } from './base';
-export { globalGraphConfig, graphConfigSchema, globalGraphConfigSchema, type GraphConfig } from './graph';
-export { type SitemapEntry, type Sitemap, globalSitemapConfig, globalSitemapConfigSchema, type SitemapConfig } from './sitemap';
+export { globalGraphConfig, graphConfigSchema, globalGraphConfigSchema, type GraphConfig, type GraphLayout } from './graph';
+export { type SitemapEntry, type SitemapMetrics, type Sitemap, globalSitemapConfig, globalSitemapConfigSchema, type SitemapConfig } from './sitemap';
 export {
 	nodeStyleSchema, type NodeStyle, type NodeShapeType,
-	nodeDefaultStyle, nodeVisitedStyle, nodeCurrentStyle, nodeUnresolvedStyle, nodeExternalStyle, tagDefaultStyle
+	nodeDefaultStyle, nodeVisitedStyle, nodeCurrentStyle, nodeUnresolvedStyle, nodeExternalStyle, nodeHeadingStyle,
+	nodeOrphanStyle, nodeFolderStyle, tagDefaultStyle
 } from './node';
+export { linkStyleSchema, linkTypeSchema, type LinkStyle, type LinkType, linkDefaultStyle, linkStyles } from './link';
 export { globalBacklinksConfig, globalBacklinksConfigSchema, type BacklinksConfig } from './backlinks';
+export { globalReportConfig, globalReportConfigSchema, type ReportConfig } from './report';
@@ -0,0 +1,59 @@
+import { z } from 'astro/zod';
+import { validColors } from './node';
+
+/**
+ * The kind of connection a link represents
+ * - `body`: Link found in the content of a page
+ * - `frontmatter`: Link listed in the `links` field of the frontmatter of a page
+ * - `tag`: Link between a page and one of its tags, only exists if tags are rendered as nodes
+ * - `external`: Link to an external page
+ * - `hierarchy`: Link between a page and its parent in the folder hierarchy
+ */
+export const linkTypeSchema = z.enum(['body', 'frontmatter', 'tag', 'external', 'hierarchy']);
+export type LinkType = z.infer<typeof linkTypeSchema>;
+
+export const linkStyleSchema = z.object({
+	/**
+	 * Color of the link in the graph, replaced by the hover color of the link if it is hovered
+	 *
+	 * @default "linkColor"
+	 */
+	color: validColors.default('linkColor'),
+	/**
+	 * Width of the link in the graph, if not specified, `linkWidth` of the graph config is used
+	 *
+	 * @optional
+	 */
+	width: z.number().min(0, "Link width may not be negative").optional(),
+	/**
+	 * Dash pattern of the link, as alternating lengths of dashes and gaps \
+	 * If empty, the link is drawn as a solid line
+	 *
+	 * @default []
+	 * @example Dashed link with short gaps
+	 * [4, 3]
+	 */
+	dashPattern: z.array(z.number().min(0, "Dash lengths may not be negative")).default([]),
+	/**
+	 * Whether arrows are rendered on the link, arrows are only rendered if `renderArrows` is enabled
+	 *
+	 * @default true
+	 */
+	renderArrow: z.boolean().default(true),
+});
+
+export type LinkStyle = z.infer<typeof linkStyleSchema>;
+
+export const linkDefaultStyle = {
+	color: "linkColor" as LinkStyle['color'],
+	dashPattern: [] as number[],
+	renderArrow: true,
+};
+
+export const linkStyles = {
+	body: {},
+	frontmatter: {},
+	tag: { renderArrow: false },
+	external: {},
+	hierarchy: { dashPattern: [4, 3], renderArrow: false },
+} as Record<LinkType, Partial<LinkStyle>>;
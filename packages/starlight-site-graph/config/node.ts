@@ -1,6 +1,6 @@
 import { z } from 'astro/zod';
 
-const validColors = z.union([
+export const validColors = z.union([
 	z.literal('inherit'),
 
 	z.literal('backgroundColor'),
@@ -85,11 +85,14 @@ export const nodeStyleSchema = z.object({
 	/**
 	 * Color of the node shape in the graph, overridden if the node is visited, current, or unresolved
 	 * If set to `'stroke'`, the color will be taken from the stroke color, if it exists, otherwise defaults to `nodeColor`
+	 * If set to `'community'`, the color will be one of `nodeColor1` to `nodeColor9` depending on the community of the page,
+	 * this requires `computeMetrics` of `sitemapConfig` to be enabled, otherwise defaults to `nodeColor`
 	 *
 	 * @default "nodeColor"
 	 */
 	shapeColor: validColors
 		.or(z.literal('stroke'))
+		.or(z.literal('community'))
 		.default('nodeColor').optional(),
 	/**
 	 * Number of points for `polygon` or `star` shapes
@@ -167,6 +170,19 @@ export const nodeStyleSchema = z.object({
 	 * @default 0.5
 	 */
 	neighborScale: z.number().min(0).default(0.5),
+	/**
+	 * Metric used by `neighborScale` to scale the node size
+	 * - `neighbors`: Number of neighbors in the graph (incoming and outgoing links)
+	 * - `inDegree`: Number of pages linking to the page
+	 * - `outDegree`: Number of pages the page links to
+	 * - `pageRank`: PageRank of the page
+	 * - `betweenness`: Betweenness centrality of the page
+	 *
+	 * @remarks `pageRank` and `betweenness` require `computeMetrics` of `sitemapConfig` to be enabled,
+	 *   and are scaled relative to the highest value in the sitemap.
+	 * @default "neighbors"
+	 */
+	sizeMetric: z.enum(['neighbors', 'inDegree', 'outDegree', 'pageRank', 'betweenness']).default('neighbors'),
 });
 
 export type NodeStyle = z.infer<typeof nodeStyleSchema>;
@@ -194,6 +210,20 @@ export const nodeExternalStyle = {
 	nodeScale: 0.8
 };
 
+export const nodeOrphanStyle = {};
+
+export const nodeHeadingStyle = {
+	nodeScale: 0.5,
+	neighborScale: 0,
+};
+
+export const nodeFolderStyle = {
+	shape: "square" as NodeShapeType,
+	shapeColor: "backgroundColor" as NodeColorType,
+	strokeColor: "nodeColor" as NodeColorType,
+	strokeWidth: 2,
+};
+
 export const tagDefaultStyle = {
 	shape: 'circle' as NodeShapeType,
 	shapeSize: 6,
@@ -0,0 +1,49 @@
+import { z } from 'astro/zod';
+
+export const globalReportConfig = {
+	logBrokenLinks: true,
+	brokenLinksReport: 'none' as ('none' | 'json' | 'markdown'),
+	failOnBrokenLinks: false,
+	analyzePages: false,
+}
+
+export const globalReportConfigSchema = z.object({
+	/**
+	 * Log a summary of all internal links pointing to pages that do not exist when the build is done
+	 *
+	 * @default true
+	 */
+	logBrokenLinks: z.boolean().default(globalReportConfig.logBrokenLinks),
+
+	/**
+	 * Write a report of all broken internal links to the output directory when the build is done. \
+	 * Every broken link is listed with its source page, target, link text and source file.
+	 * - `none`: Do not write a report
+	 * - `json`: Write the report to `sitegraph/broken-links.json`
+	 * - `markdown`: Write the report to `sitegraph/broken-links.md`
+	 *
+	 * @remarks The report is written next to the sitemap, and will thus be deployed with the website.
+	 * @default "none"
+	 */
+	brokenLinksReport: z
+		.union([z.literal('none'), z.literal('json'), z.literal('markdown')])
+		.default(globalReportConfig.brokenLinksReport),
+
+	/**
+	 * Fail the build when any internal link points to a page that does not exist
+	 *
+	 * @default false
+	 */
+	failOnBrokenLinks: z.boolean().default(globalReportConfig.failOnBrokenLinks),
+
+	/**
+	 * Find all orphan pages (pages without backlinks) and dead-end pages (pages without outgoing links)
+	 * when the build is done, log them, and write them to `sitegraph/report.json`
+	 *
+	 * @remarks Links in elements matched by `sitemapConfig.ignoreLinksInSelectors` (e.g. the sidebar) are not counted.
+	 * @default false
+	 */
+	analyzePages: z.boolean().default(globalReportConfig.analyzePages),
+}).partial();
+
+export type ReportConfig = z.infer<typeof globalReportConfigSchema>;
@@ -1,7 +1,33 @@
 import { z } from 'astro/zod';
 import { nodeStyleSchema } from './node';
+import { linkTypeSchema } from './link';
 
 
+const sitemapMetricsSchema = z.object({
+	/**
+	 * The number of pages linking to the page
+	 */
+	inDegree: z.number(),
+	/**
+	 * The number of pages the page links to
+	 */
+	outDegree: z.number(),
+	/**
+	 * The PageRank of the page, the PageRank of all pages sums up to 1
+	 */
+	pageRank: z.number(),
+	/**
+	 * The normalized betweenness centrality of the page, i.e. how often the page lies on the shortest path between two other pages
+	 */
+	betweenness: z.number(),
+	/**
+	 * The id of the community (cluster of closely linked pages) the page belongs to, the largest community has id `0`
+	 */
+	community: z.number(),
+});
+
+export type SitemapMetrics = z.infer<typeof sitemapMetricsSchema>;
+
 const sitemapEntrySchema = z.object({
 	/**
 	 * Whether the page is external (i.e. not part of the website)
@@ -17,12 +43,33 @@ const sitemapEntrySchema = z.object({
 	 * The title of the page
 	 */
 	title: z.string(),
+	/**
+	 * A short description of the page, taken from the `description` frontmatter field, or the first paragraph of the page
+	 * @remarks Only included if `includeDescriptions` of `sitemapConfig` is enabled
+	 *
+	 * @optional
+	 */
+	description: z.string().optional(),
 	/**
 	 * The links going out from the page
 	 *
 	 * @optional
 	 */
 	links: z.array(z.string()).optional(),
+	/**
+	 * The type of the links going out from the page, for all links that are not regular links in the content of the page
+	 * @remarks Links without a type are `body` links, or `external` links if they go to an external page
+	 *
+	 * @optional
+	 */
+	linkTypes: z.record(z.string(), linkTypeSchema).optional(),
+	/**
+	 * The number of times the page links to another page, for all links that occur more than once
+	 * @remarks Only determined if `linkWeights` of `sitemapConfig` is enabled, links without a weight have a weight of 1
+	 *
+	 * @optional
+	 */
+	linkWeights: z.record(z.string(), z.number()).optional(),
 	/**
 	 * The backlinks going into the page
 	 *
@@ -39,6 +86,34 @@ const sitemapEntrySchema = z.object({
 	 * The style of the node in the graph
 	 */
 	nodeStyle: nodeStyleSchema.partial().optional(),
+	/**
+	 * The page and level of the heading, if the entry represents a section of a page
+	 * @remarks The key of a heading entry is the path of its page followed by the heading anchor, e.g. `/guide/#installation`
+	 *
+	 * @optional
+	 */
+	heading: z.object({ page: z.string(), level: z.number() }).optional(),
+	/**
+	 * The structural metrics of the page within the sitemap
+	 * @remarks Only computed if `computeMetrics` of `sitemapConfig` is enabled
+	 *
+	 * @optional
+	 */
+	metrics: sitemapMetricsSchema.optional(),
+	/**
+	 * The parent of the page in the folder hierarchy, i.e. the closest page or folder containing it
+	 * @remarks Only determined if `hierarchy` of `sitemapConfig` is enabled
+	 *
+	 * @optional
+	 */
+	parent: z.string().optional(),
+	/**
+	 * Whether the entry represents a folder without a page of its own
+	 * @remarks Folder entries are only added if `hierarchy` of `sitemapConfig` is set to `folders`
+	 *
+	 * @optional
+	 */
+	folder: z.boolean().optional(),
 });
 
 export type SitemapEntry = z.infer<typeof sitemapEntrySchema>;
@@ -57,6 +132,16 @@ export const globalSitemapConfig = {
 	linkInclusionRules: ['**/*'],
 	tagRules: {},
 	styleRules: [],
+	resolveWikilinks: false,
+	wikilinkAmbiguityStrategy: 'closest' as const,
+	includeHeadings: false,
+	headingLevels: [2, 3],
+	cache: false,
+	computeMetrics: false,
+	shardDepth: 1 as number | false,
+	hierarchy: 'none' as ('none' | 'pages' | 'folders'),
+	linkWeights: 'none' as ('none' | 'count' | 'content'),
+	includeDescriptions: false,
 }
 
 export const globalSitemapConfigSchema = z.object({
@@ -182,7 +267,107 @@ export const globalSitemapConfigSchema = z.object({
 	 */
 	styleRules: z.array(
 		z.tuple([z.array(z.string()), nodeStyleSchema.partial()])
-	).default(globalSitemapConfig.styleRules)
+	).default(globalSitemapConfig.styleRules),
+
+	/**
+	 * Include wikilinks (`[[Page]]`, `[[Page|alias]]` and `[[Page#Heading]]`) found in Markdown content as links. \
+	 * The target of a wikilink is matched (case-insensitively) against the relative file path, title, file name and slug of every page. \
+	 * The alias of a wikilink is used as link text, wikilinks that match no page are added as unresolved nodes.
+	 *
+	 * @default false
+	 */
+	resolveWikilinks: z.boolean().default(globalSitemapConfig.resolveWikilinks),
+
+	/**
+	 * Determine which page a wikilink refers to when its target matches multiple pages.
+	 * - `first`: Use the first match, file paths take precedence over titles, file names and slugs (in that order).
+	 * - `closest`: Use the match that shares the most parent folders with the page containing the wikilink.
+	 * - `unresolved`: Do not pick any of the matches, the wikilink is added as an unresolved node instead.
+	 *
+	 * @default 'closest'
+	 */
+	wikilinkAmbiguityStrategy: z.enum(['first', 'closest', 'unresolved']).default(globalSitemapConfig.wikilinkAmbiguityStrategy),
+
+	/**
+	 * Include the headings of every page as separate entries in the sitemap, keyed by `page#anchor`. \
+	 * Headings are retrieved from the Markdown source, and from the `id` attributes of the generated HTML when building. \
+	 * Links to a section of a page (e.g. `/guide/#installation`) will link to the heading entry instead of the page.
+	 *
+	 * @default false
+	 */
+	includeHeadings: z.boolean().default(globalSitemapConfig.includeHeadings),
+
+	/**
+	 * The levels of the headings to include in the sitemap when `includeHeadings` is enabled
+	 *
+	 * @default [2, 3]
+	 */
+	headingLevels: z.array(z.number().int().min(1).max(6)).default(globalSitemapConfig.headingLevels),
+
+	/**
+	 * Persist the data extracted from every content file between builds, in the `.astro` cache directory. \
+	 * Files whose content did not change since the previous build will not be parsed again. \
+	 * The cache is discarded automatically whenever the sitemap configuration changes.
+	 *
+	 * @remarks Only useful for large websites, parsing a few hundred pages is typically fast enough.
+	 * @default false
+	 */
+	cache: z.boolean().default(globalSitemapConfig.cache),
+
+	/**
+	 * Compute the structural metrics of every page (in/out degree, PageRank, betweenness centrality and community),
+	 * and store them in the `metrics` field of its sitemap entry. \
+	 * Metrics can be used to size and color nodes in the graph, via the `sizeMetric` and `shapeColor` node style options.
+	 *
+	 * @remarks Computing the betweenness centrality scales quadratically with the number of pages.
+	 * @default false
+	 */
+	computeMetrics: z.boolean().default(globalSitemapConfig.computeMetrics),
+
+	/**
+	 * Besides the full sitemap, write a shard for every page when building, containing only the pages within `shardDepth` links of the page. \
+	 * Page graphs will fetch the shard of their page instead of the full sitemap, as long as the graph `depth` does not exceed `shardDepth`.
+	 * The full sitemap is still fetched when a larger depth (or the entire graph) is shown.
+	 * If set to `false`, no shards are written, and the full sitemap is always fetched.
+	 *
+	 * @remarks Every shard is a separate file in `sitegraph/shards`, a higher depth results in larger shards.
+	 * @default 1
+	 */
+	shardDepth: z.union([z.literal(false), z.number().int().min(0).max(4)]).default(globalSitemapConfig.shardDepth),
+
+	/**
+	 * Connect every page to its parent in the folder hierarchy of the slugs, in addition to the links between pages. \
+	 * Hierarchy links are a separate kind of link, and are rendered differently from regular links in the graph.
+	 * - `none`: Do not add the folder hierarchy.
+	 * - `pages`: Connect every page to the closest page in one of its parent folders, e.g. `/guides/setup/` to `/guides/`.
+	 * - `folders`: Connect every page to the folder containing it, and add a node for every folder without a page of its own.
+	 *
+	 * @default 'none'
+	 */
+	hierarchy: z.enum(['none', 'pages', 'folders']).default(globalSitemapConfig.hierarchy),
+
+	/**
+	 * Count how often every page links to another page, and store the counts in the `linkWeights` field of its sitemap entry. \
+	 * The graph can use the weights to draw thicker links and pull strongly connected pages closer together, see `linkWeightScale` of `graphConfig`.
+	 * - `none`: Do not count links, every link has a weight of 1.
+	 * - `count`: Every occurrence of a link counts, both in the Markdown content and in the generated HTML.
+	 * - `content`: Only occurrences in the Markdown content of the page count (including wikilinks),
+	 *   links only found in the generated HTML (e.g. in navigation components) have a weight of 1.
+	 *
+	 * @default 'none'
+	 */
+	linkWeights: z.enum(['none', 'count', 'content']).default(globalSitemapConfig.linkWeights),
+
+	/**
+	 * Include a short description of every page in the `description` field of its sitemap entry. \
+	 * The description is taken from the `description` frontmatter field of the page, or otherwise from its first paragraph.
+	 * For pages without a Markdown source, the `description` meta tag of the generated HTML is used.
+	 * Descriptions are shown in the preview card of the graph, see `renderPreview` of `graphConfig`.
+	 *
+	 * @remarks Descriptions are shortened to 200 characters, but still noticeably increase the size of the sitemap.
+	 * @default false
+	 */
+	includeDescriptions: z.boolean().default(globalSitemapConfig.includeDescriptions),
 }).partial();
 
 export type SitemapConfig = z.infer<typeof globalSitemapConfigSchema>;
@@ -1,13 +1,29 @@
 import fs from 'node:fs';
 
 import { addVirtualImports, defineIntegration } from 'astro-integration-kit';
+import { AstroError } from 'astro/errors';
+import type { AstroIntegrationLogger } from 'astro';
 
 import { fileURLToPath } from 'node:url';
 
 import { starlightSiteGraphConfigSchema, type FullStarlightSiteGraphConfig, validateConfig } from './config';
 import { SiteMapBuilder } from './sitemap/build';
 import { processSitemap } from './sitemap/process';
+import { computeSitemapMetrics } from './sitemap/metrics';
+import { writeGraphShards } from './sitemap/shards';
+import { prepareGraphData } from './sitemap/graph-data';
+import { computeLayout } from './sitemap/layout';
 import { trimSlashes } from './sitemap/util';
+import { watchContentFolder } from './sitemap/watch';
+import { SitemapCache } from './sitemap/cache';
+import {
+	analyzeSitemap,
+	formatBrokenLinksSummary,
+	formatPageAnalysisSummary,
+	writeBrokenLinksReport,
+	writePageAnalysisReport,
+} from './sitemap/report';
+import { SITEMAP_UPDATE_EVENT } from './components/graph/constants';
 
 /**
  * Generates a static sitemap for all md files in the docs directory inside public/sitemap.json,
@@ -25,6 +41,78 @@ export default defineIntegration({
 		const builder = new SiteMapBuilder(settings.sitemapConfig);
 		const sitemapProvided = !!settings.sitemapConfig.sitemap;
 		let outputPath: string;
+		let trailingSlashes: boolean = true;
+		let cache: SitemapCache | undefined;
+
+		// EXPL: The content of this virtual import is replaced whenever the sitemap is updated in dev mode
+		const configImport = { id: 'virtual:starlight-site-graph/config', content: '' };
+
+		function generateSitemap() {
+			const sitemap = builder.process().toSitemap();
+			return settings.sitemapConfig.computeMetrics ? computeSitemapMetrics(sitemap) : sitemap;
+		}
+
+		async function saveCache(logger: AstroIntegrationLogger, prune: boolean = false) {
+			if (!cache) return;
+			try {
+				await cache.save(prune);
+			} catch (e) {
+				logger.warn(
+					`Failed to write the sitemap cache to disk.\n` +
+					`  Cause: ${e instanceof Error ? e.message : String(e)}\n` +
+					`  Impact: All content files will be parsed again on the next build.`
+				);
+			}
+		}
+
+		async function reportBrokenLinks(logger: AstroIntegrationLogger) {
+			const { logBrokenLinks, brokenLinksReport, failOnBrokenLinks } = settings.reportConfig;
+			// EXPL: The broken links are always logged when any report is requested, so the cause of a failed build is visible
+			if (!logBrokenLinks && brokenLinksReport === 'none' && !failOnBrokenLinks) return;
+
+			const brokenLinks = builder.getBrokenLinks(outputPath);
+			if (brokenLinks.length) {
+				logger.warn(formatBrokenLinksSummary(brokenLinks));
+			} else {
+				logger.info('No broken links found');
+			}
+
+			try {
+				const reportPath = await writeBrokenLinksReport(brokenLinks, outputPath, brokenLinksReport);
+				if (reportPath) {
+					logger.info(`Broken links report created at '${reportPath}'`);
+				}
+			} catch (e) {
+				logger.warn(
+					`Failed to write the broken links report to disk.\n` +
+					`  Cause: ${e instanceof Error ? e.message : String(e)}`
+				);
+			}
+
+			if (failOnBrokenLinks && brokenLinks.length) {
+				throw new AstroError(
+					`Found ${brokenLinks.length} broken internal link${brokenLinks.length === 1 ? '' : 's'}`,
+					'Fix the links listed above, or set `reportConfig.failOnBrokenLinks` to `false` to allow broken links.',
+				);
+			}
+		}
+
+		async function reportPageAnalysis(logger: AstroIntegrationLogger) {
+			if (!settings.reportConfig.analyzePages || !settings.sitemapConfig.sitemap) return;
+
+			const analysis = analyzeSitemap(settings.sitemapConfig.sitemap);
+			logger.info(formatPageAnalysisSummary(analysis));
+
+			try {
+				const reportPath = await writePageAnalysisReport(analysis, outputPath);
+				logger.info(`Page analysis report created at '${reportPath}'`);
+			} catch (e) {
+				logger.warn(
+					`Failed to write the page analysis report to disk.\n` +
+					`  Cause: ${e instanceof Error ? e.message : String(e)}`
+				);
+			}
+		}
 
 		return {
 			hooks: {
@@ -89,9 +177,9 @@ export default defineIntegration({
 						}
 					}
 
-					const addTrailingSlash = config.trailingSlash !== 'never';
+					trailingSlashes = config.trailingSlash !== 'never';
 					builder.setContentRoot(settings.sitemapConfig.contentRoot);
-					builder.setTrailingSlash(addTrailingSlash);
+					builder.setTrailingSlash(trailingSlashes);
 
 					// TODO: Figure if it is somehow possible to conditionally import astro:prefetch without triggering vite errors
 					if (!config.prefetch) {
@@ -121,6 +209,17 @@ export default defineIntegration({
 						// Generate sitemap (links, backlinks, tags, nodeStyle) from markdown content
 						if (command === 'dev' || command === 'build') {
 							builder.setBasePath(config.base);
+
+							if (settings.sitemapConfig.cache) {
+								const { sitemap, ...sitemapConfig } = settings.sitemapConfig;
+								cache = await new SitemapCache(fileURLToPath(config.cacheDir), {
+									sitemapConfig,
+									base: config.base,
+									trailingSlash: config.trailingSlash,
+								}).load();
+								builder.setCache(cache);
+							}
+
 							try {
 								await fs.promises.access(settings.sitemapConfig.contentRoot);
 							} catch (e) {
@@ -136,15 +235,16 @@ export default defineIntegration({
 								);
 
 								// Initialize with empty sitemap to allow integration to continue
-								settings.sitemapConfig.sitemap = builder.process().toSitemap();
+								settings.sitemapConfig.sitemap = generateSitemap();
 							}
 
 							// Only attempt to add content if directory exists
 							if (!sitemapGenerationFailed) {
 								try {
 									await builder.addMDContentFolder(settings.sitemapConfig.contentRoot, settings.sitemapConfig.pageInclusionRules)
-									settings.sitemapConfig.sitemap = builder.process().toSitemap();
+									settings.sitemapConfig.sitemap = generateSitemap();
 									logger.info('Finished retrieving links from Markdown content');
+									await saveCache(logger);
 								} catch (e) {
 									const error = e instanceof Error ? e : new Error(String(e));
 									sitemapGenerationFailed = true;
@@ -158,7 +258,7 @@ export default defineIntegration({
 									);
 
 									// Initialize with empty sitemap to allow integration to continue
-									settings.sitemapConfig.sitemap = builder.process().toSitemap();
+									settings.sitemapConfig.sitemap = generateSitemap();
 								}
 							}
 						}
@@ -198,12 +298,13 @@ export default defineIntegration({
 
 					// Always add virtual imports, even if sitemap generation failed
 					// This ensures the integration continues to work with an empty graph
+					configImport.content = `export default ${JSON.stringify(settings)}`;
 					addVirtualImports(args, {
 						name,
-						imports: {
-							'virtual:starlight-site-graph/config': `export default ${JSON.stringify(settings)}`,
-							'virtual:starlight-site-graph/astro-config': `export default ${JSON.stringify(config)}`,
-						},
+						imports: [
+							configImport,
+							{ id: 'virtual:starlight-site-graph/astro-config', content: `export default ${JSON.stringify(config)}` },
+						],
 					});
 
 					// Warn user if running in degraded mode
@@ -226,6 +327,30 @@ export default defineIntegration({
 						}
 					`)
 				},
+				'astro:server:setup': async ({ server, logger }) => {
+					if (sitemapProvided || !settings.sitemapConfig.pageInclusionRules.length) return;
+
+					watchContentFolder(server, {
+						builder,
+						logger,
+						contentRoot: settings.sitemapConfig.contentRoot,
+						patterns: settings.sitemapConfig.pageInclusionRules,
+						onUpdate: () => {
+							settings.sitemapConfig.sitemap = generateSitemap();
+							configImport.content = `export default ${JSON.stringify(settings)}`;
+
+							// EXPL: Server-rendered components (e.g. backlinks) read the sitemap from the virtual config
+							const configModule = server.moduleGraph.getModuleById(`\0${configImport.id}`);
+							if (configModule) server.moduleGraph.invalidateModule(configModule);
+
+							server.hot.send({
+								type: 'custom',
+								event: SITEMAP_UPDATE_EVENT,
+								data: settings.sitemapConfig.sitemap,
+							});
+						},
+					});
+				},
 				'astro:config:done': async (args) => {
 					const { injectTypes } = args;
 
@@ -257,16 +382,15 @@ export default defineIntegration({
 						logger.info('Retrieving links from generated HTML content');
 						try {
 							await fs.promises.access(outputPath);
-							settings.sitemapConfig.sitemap = (await builder
-								.addHTMLContentFolder(outputPath, settings.sitemapConfig.pageInclusionRules))
-								.process()
-								.toSitemap();
+							await builder.addHTMLContentFolder(outputPath, settings.sitemapConfig.pageInclusionRules);
+							settings.sitemapConfig.sitemap = generateSitemap();
 							logger.info('Finished generating sitemap from generated HTML content');
+							await saveCache(logger, true);
 						} catch (e) {
 							const error = e instanceof Error ? e : new Error(String(e));
 
 							// Fall back to markdown-only sitemap
-							settings.sitemapConfig.sitemap = builder.process().toSitemap();
+							settings.sitemapConfig.sitemap = generateSitemap();
 
 							logger.warn(
 								`Failed to retrieve links from generated HTML content. Falling back to Markdown-only sitemap.\n` +
@@ -299,6 +423,33 @@ export default defineIntegration({
 						);
 						throw error; // Re-throw to fail the build
 					}
+
+					if (settings.sitemapConfig.sitemap) {
+						try {
+							// EXPL: Page graphs with a config that differs from the global graph config fall back to the full sitemap
+							const graphData = prepareGraphData(settings.sitemapConfig.sitemap, settings.graphConfig, trailingSlashes);
+							if (settings.graphConfig.precomputeLayout && settings.graphConfig.layout === 'force') {
+								computeLayout(graphData, settings.graphConfig);
+							}
+							await fs.promises.writeFile(`${outputPath}/sitegraph/graph.json`, JSON.stringify(graphData));
+
+							if (settings.sitemapConfig.shardDepth !== false) {
+								const shardCount = await writeGraphShards(graphData, settings.sitemapConfig.shardDepth, outputPath);
+								logger.info(`Created ${shardCount} sitemap shards in 'dist/sitegraph/shards'`);
+							}
+						} catch (e) {
+							logger.warn(
+								`Failed to write the prepared graph data to disk.\n` +
+								`  Cause: ${e instanceof Error ? e.message : String(e)}\n` +
+								`  Impact: Page graphs will fetch and prepare the full sitemap instead.`
+							);
+						}
+					}
+
+					await reportPageAnalysis(logger);
+					if (!sitemapProvided) {
+						await reportBrokenLinks(logger);
+					}
 				}
 			}
 		};
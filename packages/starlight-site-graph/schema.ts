@@ -66,6 +66,13 @@ export const pageSiteGraphSchema = z.object({
 	 * @required
 	 */
 	title: z.string().optional(),
+	/**
+	 * A short description of the page \
+	 * Included in the sitemap if `includeDescriptions` is enabled, instead of the first paragraph of the page
+	 *
+	 * @optional
+	 */
+	description: z.string().optional(),
 	/**
 	 * Specify direct links to other pages of the site
 	 *
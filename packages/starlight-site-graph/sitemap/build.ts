@@ -4,15 +4,59 @@ import path from 'node:path';
 import matter from 'gray-matter';
 
 import type { PageSiteGraphFrontmatter } from '../schema';
-import type { NodeStyle, RemoveOptional, Sitemap, SitemapConfig } from '../config';
+import type { LinkType, NodeStyle, RemoveOptional, Sitemap, SitemapConfig } from '../config';
 
 import {
 	ensureLeadingPound, trimSlashes, setSlashes,
 	firstMatchingPattern,
-	resolveIndex, slugifyPath, walk, getMostCommonItem, extractMDLinkText, ensureLeadingSlash
+	resolveIndex, slugifyPath, walk, getMostCommonItem, ensureLeadingSlash, safeDecodeURIComponent, summarizeText
 } from './util';
 
 import {DomUtils, parseDocument} from 'htmlparser2'
+import { slug } from 'github-slugger';
+import { SitemapCache } from './cache';
+import type { BrokenLink } from './report';
+import {
+	extractFirstParagraph, extractMarkdownHeadings, extractMarkdownLinks, extractWikilinks, parseMarkdown,
+	type MarkdownHeading, type Wikilink
+} from './markdown';
+
+/** Maximum length of the description of a page, longer descriptions are shortened */
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Data extracted from a single Markdown file, independent of the state of the builder
+ */
+interface MDContentData {
+	linkPath: string;
+	frontmatter: PageSiteGraphFrontmatter & { slug?: string };
+	linkTexts: [string, string][];
+	excluded: boolean;
+	tags: string[];
+	links: string[];
+	/** Number of occurrences of every link in the content */
+	linkCounts: Record<string, number>;
+	frontmatterLinks: string[];
+	wikilinks: Wikilink[];
+	headings: MarkdownHeading[];
+	nodeStyle: Partial<NodeStyle>;
+	/** The `description` frontmatter field or the first paragraph, only extracted if `includeDescriptions` is enabled */
+	description?: string;
+}
+
+/**
+ * Data extracted from a single generated HTML file, independent of the state of the builder
+ */
+interface HTMLContentData {
+	linkPath: string;
+	links: string[];
+	/** Number of occurrences of every link in the HTML */
+	linkCounts: Record<string, number>;
+	linkTexts: [string, string][];
+	headings: MarkdownHeading[];
+	/** The content of the `description` meta tag, only extracted if `includeDescriptions` is enabled */
+	description?: string;
+}
 
 interface IntermediateSitemapEntry {
 	external: boolean;
@@ -20,8 +64,16 @@ interface IntermediateSitemapEntry {
 	linkPath: string;
 	tags: Set<string>;
 	links: Set<string>;
+	/** Type of the links that are not `body` links */
+	linkTypes?: Map<string, LinkType>;
+	/** Number of occurrences of every link, see `linkWeights` */
+	linkWeights?: Map<string, number>;
 	backlinks: Set<string>;
 	nodeStyle: Partial<NodeStyle>;
+	heading?: { page: string, level: number };
+	parent?: string;
+	folder?: boolean;
+	description?: string;
 }
 
 
@@ -29,8 +81,19 @@ export class SiteMapBuilder {
 	private map: Map<string, IntermediateSitemapEntry>;
 	private contentRoot: string | undefined;
 	private excludedPaths: Set<string> = new Set();
+	/** Pages that exist but are not part of the sitemap due to `pageInclusionRules`, links to them are not broken */
+	private skippedPaths: Set<string> = new Set();
 	private addTrailingSlash: boolean = false;
 	private encounteredFiles: Set<string> = new Set();
+	private fileLinkPaths: Map<string, string> = new Map();
+	private fileLinkTexts: Map<string, [string, string][]> = new Map();
+	private resolvedNames: Map<string, string> = new Map();
+	private cache: SitemapCache | undefined;
+	private wikilinks: Map<string, Wikilink[]> = new Map();
+	private wikilinkLinks: Map<string, Set<string>> = new Map();
+	private wikilinkTexts: Map<string, string[]> = new Map();
+	private wikilinkCounts: Map<string, Map<string, number>> = new Map();
+	private headings: Map<string, MarkdownHeading[]> = new Map();
 
 	basePath!: string;
 	explicitSlugAssociations: Map<string, string> = new Map();
@@ -46,7 +109,7 @@ export class SiteMapBuilder {
 	}
 
 	setContentRoot(contentRoot: string) {
-		this.contentRoot = trimSlashes(contentRoot);
+		this.contentRoot = path.resolve(contentRoot);
 		return this;
 	}
 
@@ -60,6 +123,11 @@ export class SiteMapBuilder {
 		return this;
 	}
 
+	setCache(cache: SitemapCache) {
+		this.cache = cache;
+		return this;
+	}
+
 	async addHTMLContentFolder(folder: string, patterns: string[] = []) {
 		for await (const filePath of walk(folder)) {
 			// Skip mapping 404 page
@@ -69,6 +137,8 @@ export class SiteMapBuilder {
 				const relativePath = ensureLeadingSlash(path.relative(folder, filePath).replace(/\\/g, '/'));
 				if (firstMatchingPattern(relativePath, patterns, false)) {
 					await this.addHTMLContent(filePath, folder);
+				} else {
+					this.skippedPaths.add(this.getLinkPathFromFilePath(filePath, folder));
 				}
 			}
 		}
@@ -78,11 +148,30 @@ export class SiteMapBuilder {
 
 	async addHTMLContent(filePath: string, folderPath: string) {
 		const linkPath = this.getLinkPathFromFilePath(filePath, folderPath);
-		this.encounteredFiles.add(linkPath);
+		const content = await fs.promises.readFile(filePath, 'utf8');
 
-		let links = new Set<string>();
+		const hash = this.cache ? SitemapCache.hashContent(content) : undefined;
+		let data = hash ? this.cache!.get<HTMLContentData>(filePath, hash) : undefined;
+		// EXPL: Relative links are resolved against the link path, so cached data is only valid for the same path
+		if (data?.linkPath !== linkPath) {
+			data = this.extractHTMLContent(content, linkPath);
+			if (hash) this.cache!.set(filePath, hash, data);
+		}
+
+		this.registerHTMLContent(filePath, data);
+		return this;
+	}
+
+	/**
+	 * Extract all links from the generated HTML content of a page
+	 * @param content - The HTML content of the page
+	 * @param linkPath - The link path of the page
+	 */
+	private extractHTMLContent(content: string, linkPath: string): HTMLContentData {
+		const links = new Set<string>();
+		const linkCounts: Record<string, number> = {};
+		const linkTexts: [string, string][] = [];
 
-		const content = await fs.promises.readFile(filePath, 'utf8');
 		const document = parseDocument(content);
 		const allLinks = DomUtils.findAll(el => {
 			return el.name === 'a' &&
@@ -91,7 +180,7 @@ export class SiteMapBuilder {
 		}, document.children);
 		const excludedSelectors = new Set(this.config.ignoreLinksInSelectors);
 
-		const includedLinks = allLinks.filter(el => {
+		const isExcluded = (el: typeof allLinks[number]) => {
 			let current = el;
 			while (current && current.type === 'tag') {
 				if (
@@ -99,29 +188,72 @@ export class SiteMapBuilder {
 					excludedSelectors.has("#" + current.attribs?.['id']) ||
 					current.attribs?.['class']?.split(' ').some((c: string) => excludedSelectors.has("." + c))
 				) {
-					return false;
+					return true;
 				}
 				current = current.parent as typeof el;
 			}
-			return true;
-		});
+			return false;
+		};
+		const includedLinks = allLinks.filter(el => !isExcluded(el));
 
 		for (const link of includedLinks) {
 			let href = this.resolveLink(linkPath, link.attribs['href']!, links);
 			if (href) {
+				linkCounts[href] = (linkCounts[href] ?? 0) + 1;
 				const text = DomUtils.textContent(link).trim() ?? '';
 				if (text.length) {
-					this.implicitNameAssociations.set(href, [...(this.implicitNameAssociations.get(href) ?? []), text]);
+					linkTexts.push([href, text]);
+				}
+			}
+		}
+
+		const headings: MarkdownHeading[] = [];
+		if (this.config.includeHeadings) {
+			const headingElements = DomUtils.findAll(el => {
+				return /^h[1-6]$/.test(el.name) &&
+					!!el.attribs?.['id'] &&
+					this.config.headingLevels.includes(Number(el.name[1]));
+			}, document.children);
+
+			for (const heading of headingElements) {
+				if (isExcluded(heading)) continue;
+				const text = DomUtils.textContent(heading).trim();
+				if (text) {
+					headings.push({ anchor: heading.attribs['id']!, text, level: Number(heading.name[1]) });
 				}
 			}
 		}
 
+		let description: string | undefined;
+		if (this.config.includeDescriptions) {
+			const meta = DomUtils.findOne(el => el.name === 'meta' && el.attribs['name'] === 'description', document.children);
+			description = meta?.attribs['content'] && summarizeText(meta.attribs['content'], MAX_DESCRIPTION_LENGTH);
+		}
+
+		return { linkPath, links: [...links], linkCounts, linkTexts, headings, ...(description ? { description } : {}) };
+	}
+
+	private registerHTMLContent(filePath: string, data: HTMLContentData) {
+		const linkPath = data.linkPath;
+		this.encounteredFiles.add(linkPath);
+
+		for (const [link, text] of data.linkTexts) {
+			this.addLinkText(filePath, link, text);
+		}
+
 		// TODO: move this above?
 		if (this.excludedPaths.has(linkPath)) {
-			return this;
+			return;
 		}
 
+		if (data.headings.length) {
+			// EXPL: Headings from the Markdown source take precedence, the HTML only adds headings generated by components
+			const headings = this.headings.get(linkPath) ?? [];
+			const anchors = new Set(headings.map(heading => heading.anchor));
+			this.headings.set(linkPath, [...headings, ...data.headings.filter(heading => !anchors.has(heading.anchor))]);
+		}
 
+		let links = new Set(data.links);
 		const currentLinkRules = (this.frontmatterData.get(linkPath)?.data?.sitemap?.linkInclusionRules ?? []).concat(
 			this.config.linkInclusionRules,
 		);
@@ -134,7 +266,14 @@ export class SiteMapBuilder {
 			const entry = this.map.get(linkPath)!;
 			this.map.set(linkPath, {
 				...entry,
+				// EXPL: The entry might have been an unresolved placeholder created by an earlier `process()` call
+				filePath: entry.filePath ?? filePath,
 				links: new Set([...links, ...entry.links]),
+				// EXPL: Links found in the generated HTML are part of the content of the page
+				linkTypes: new Map([...(entry.linkTypes ?? [])].filter(([link]) => !links.has(link))),
+				linkWeights: this.mergeLinkWeights(entry.linkWeights, data.linkCounts),
+				// EXPL: The description from the Markdown source takes precedence over the one in the generated HTML
+				...(entry.description ?? data.description ? { description: entry.description ?? data.description } : {}),
 			});
 		} else {
 			this.map.set(linkPath, {
@@ -143,12 +282,26 @@ export class SiteMapBuilder {
 				linkPath,
 				tags: new Set(),
 				links,
+				linkWeights: this.mergeLinkWeights(undefined, data.linkCounts),
 				backlinks: new Set(),
 				nodeStyle: {},
+				...(data.description ? { description: data.description } : {}),
 			});
 		}
+	}
 
-		return this;
+	/**
+	 * Merge the link counts found in the generated HTML of a page into the link weights of its entry
+	 * @remarks The HTML contains the links of the Markdown content as well, so the highest count of both is used
+	 */
+	private mergeLinkWeights(linkWeights: Map<string, number> | undefined, htmlLinkCounts: Record<string, number>) {
+		const merged = new Map(linkWeights);
+		if (this.config.linkWeights === 'count') {
+			for (const [link, count] of Object.entries(htmlLinkCounts)) {
+				merged.set(link, Math.max(merged.get(link) ?? 0, count));
+			}
+		}
+		return merged;
 	}
 
 	async addMDContentFolder(folder: string, patterns: string[] = []) {
@@ -157,6 +310,8 @@ export class SiteMapBuilder {
 				const relativePath = ensureLeadingSlash(path.relative(folder, filePath).replace(/\\/g, '/'));
 				if (firstMatchingPattern(relativePath, patterns, false)) {
 					await this.addMDContent(filePath);
+				} else {
+					this.skippedPaths.add(setSlashes(this.getLinkPath(filePath, this.contentRoot ?? folder, this.basePath), true, this.addTrailingSlash));
 				}
 			}
 		}
@@ -164,8 +319,28 @@ export class SiteMapBuilder {
 	}
 
 	async addMDContent(filePath: string) {
+		// EXPL: Files are identified by their absolute path, as the watcher reports absolute paths regardless of `contentRoot`
+		filePath = path.resolve(filePath);
 		const content = await fs.promises.readFile(filePath, 'utf8');
-		const frontmatter = matter(content) as unknown as { data: PageSiteGraphFrontmatter & { slug?: string } };
+
+		const hash = this.cache ? SitemapCache.hashContent(content) : undefined;
+		let data = hash ? this.cache!.get<MDContentData>(filePath, hash) : undefined;
+		if (!data) {
+			data = this.extractMDContent(content, filePath);
+			if (hash) this.cache!.set(filePath, hash, data);
+		}
+
+		this.registerMDContent(filePath, data);
+		return this;
+	}
+
+	/**
+	 * Extract the links, tags and styles from the content of a Markdown file
+	 * @param content - The content of the Markdown file
+	 * @param filePath - The path of the Markdown file
+	 */
+	private extractMDContent(content: string, filePath: string): MDContentData {
+		const frontmatter = matter(content) as unknown as { data: PageSiteGraphFrontmatter & { slug?: string }, content: string };
 
 		let linkPath: string;
 
@@ -175,47 +350,46 @@ export class SiteMapBuilder {
 			linkPath = path.join(this.basePath,
 				setSlashes(frontmatter.data.slug, true, this.addTrailingSlash)
 			).replace(/\\/g, '/');
-			this.explicitSlugAssociations.set(linkPath, frontmatter.data.slug);
 		}
 		// Otherwise, re-create the Astro slug from the file path
 		else {
 			linkPath = setSlashes(this.getLinkPath(filePath, this.contentRoot, this.basePath), true, this.addTrailingSlash);
 		}
 
-		this.encounteredFiles.add(linkPath);
-		this.frontmatterData.set(linkPath, frontmatter);
-
 		let links = new Set<string>();
+		const linkCounts: Record<string, number> = {};
+		const frontmatterLinks = new Set<string>();
+		const linkTexts: [string, string][] = [];
 		const tags = new Set<string>();
 		let nodeStyle = {} as Partial<NodeStyle>;
 
-
-		// TODO: Check if ![[alt text](image link.png)](actual link) should be considered, and if so, properly extract alt text from inner content
-		for (const match of content.match(/!?\[([^\]]+)\]\(([^)]+)\)/g) ?? []) {
-			// Based on a quick code search, most code sources exclusively use ![alt](link) for images, so these can be ignored
-			// NOTE: If desired, it is possible to have image links be included, but the correct path would need to be determined
-			if (!match.startsWith("!")) {
-				const link = this.resolveLink(linkPath, match.slice(match.lastIndexOf('](') + 2, -1), links);
-				if (link && !match.startsWith('!')) {
-					const text = extractMDLinkText(match);
-					if (text) {
-						this.implicitNameAssociations.set(link, [...(this.implicitNameAssociations.get(link) ?? []), text]);
-					}
-				}
+		// NOTE: Image links are ignored, if desired, they could be included, but the correct path would need to be determined
+		const tree = parseMarkdown(frontmatter.content, path.extname(filePath) === '.mdx');
+		for (const { url, text } of extractMarkdownLinks(tree)) {
+			const link = this.resolveLink(linkPath, url, links);
+			if (link) {
+				linkCounts[link] = (linkCounts[link] ?? 0) + 1;
 			}
-		}
-
-		if (frontmatter.data) {
-			if (frontmatter.data.sitemap?.include === false) {
-				this.excludedPaths.add(linkPath);
-				return this;
+			if (link && text) {
+				linkTexts.push([link, text]);
 			}
+		}
 
-			if (frontmatter.data.sitemap?.pageTitle) {
-				this.explicitNameAssociations.set(linkPath, frontmatter.data.sitemap.pageTitle);
-			} else if (frontmatter.data.title && !this.explicitNameAssociations.has(linkPath)) {
-				this.explicitNameAssociations.set(linkPath, frontmatter.data.title);
-			}
+		const data: MDContentData = {
+			linkPath,
+			frontmatter: frontmatter.data,
+			linkTexts,
+			excluded: frontmatter.data?.sitemap?.include === false,
+			tags: [],
+			links: [],
+			linkCounts: {},
+			frontmatterLinks: [],
+			wikilinks: [],
+			headings: [],
+			nodeStyle,
+		};
+		if (data.excluded) {
+			return data;
 		}
 
 		// Applying sitemap filtering/post-processing rules
@@ -229,7 +403,10 @@ export class SiteMapBuilder {
 		if (frontmatter.data) {
 			if (frontmatter.data.links) {
 				for (const link of [].concat(frontmatter.data.links as any)) {
-					links.add(setSlashes(link, true, this.addTrailingSlash));
+					const target = setSlashes(link, true, this.addTrailingSlash);
+					// EXPL: A link that also occurs in the content of the page remains a body link
+					if (!links.has(target)) frontmatterLinks.add(target);
+					links.add(target);
 				}
 			}
 
@@ -256,15 +433,115 @@ export class SiteMapBuilder {
 			}
 		}
 
+		let description: string | undefined;
+		if (this.config.includeDescriptions) {
+			description = frontmatter.data?.description || extractFirstParagraph(tree);
+			description = description && summarizeText(description, MAX_DESCRIPTION_LENGTH);
+		}
+
+		return {
+			...data,
+			tags: [...tags],
+			links: [...links],
+			linkCounts,
+			frontmatterLinks: [...frontmatterLinks],
+			wikilinks: this.config.resolveWikilinks ? extractWikilinks(tree) : [],
+			headings: this.config.includeHeadings ? extractMarkdownHeadings(tree, this.config.headingLevels) : [],
+			nodeStyle,
+			...(description ? { description } : {}),
+		};
+	}
+
+	private registerMDContent(filePath: string, data: MDContentData) {
+		const { linkPath, frontmatter } = data;
+
+		if (frontmatter?.slug) {
+			this.explicitSlugAssociations.set(linkPath, frontmatter.slug);
+		}
+
+		this.encounteredFiles.add(linkPath);
+		this.frontmatterData.set(linkPath, { data: frontmatter });
+		this.fileLinkPaths.set(filePath, linkPath);
+
+		for (const [link, text] of data.linkTexts) {
+			this.addLinkText(filePath, link, text);
+		}
+
+		if (data.excluded) {
+			this.excludedPaths.add(linkPath);
+			return;
+		}
+
+		if (frontmatter?.sitemap?.pageTitle) {
+			this.explicitNameAssociations.set(linkPath, frontmatter.sitemap.pageTitle);
+		} else if (frontmatter?.title && !this.explicitNameAssociations.has(linkPath)) {
+			this.explicitNameAssociations.set(linkPath, frontmatter.title);
+		}
+
+		if (data.wikilinks.length) {
+			this.wikilinks.set(linkPath, data.wikilinks);
+		}
+		if (data.headings.length) {
+			this.headings.set(linkPath, data.headings);
+		}
+
 		this.map.set(linkPath, {
 			external: false,
 			filePath,
 			linkPath,
-			tags,
-			links,
+			tags: new Set(data.tags),
+			links: new Set(data.links),
+			linkTypes: new Map(data.frontmatterLinks.map(link => [link, 'frontmatter'])),
+			linkWeights: new Map(Object.entries(data.linkCounts)),
 			backlinks: new Set<string>(),
-			nodeStyle,
+			nodeStyle: data.nodeStyle,
+			...(data.description ? { description: data.description } : {}),
 		});
+	}
+
+	/**
+	 * Re-parse a single Markdown file, replacing all data previously extracted from it
+	 * @param filePath - The path of the Markdown file that was added or changed
+	 */
+	async updateMDContent(filePath: string) {
+		filePath = path.resolve(filePath);
+		this.removeMDContent(filePath);
+		return this.addMDContent(filePath);
+	}
+
+	/**
+	 * Remove all data extracted from a single Markdown file
+	 * @param filePath - The path of the Markdown file that was removed
+	 */
+	removeMDContent(filePath: string) {
+		filePath = path.resolve(filePath);
+		const linkPath = this.fileLinkPaths.get(filePath);
+		if (linkPath === undefined) return this;
+
+		this.fileLinkPaths.delete(filePath);
+		this.map.delete(linkPath);
+		this.encounteredFiles.delete(linkPath);
+		this.excludedPaths.delete(linkPath);
+		this.frontmatterData.delete(linkPath);
+		this.explicitSlugAssociations.delete(linkPath);
+		this.wikilinks.delete(linkPath);
+		this.headings.delete(linkPath);
+
+		// EXPL: Restore the title from the `pageTitles` config, as it may have been overwritten by the frontmatter
+		const configTitle = Object.entries(this.config.pageTitles)
+			.find(([k]) => setSlashes(k, true, this.addTrailingSlash) === linkPath)?.[1];
+		if (configTitle !== undefined) {
+			this.explicitNameAssociations.set(linkPath, configTitle);
+		} else {
+			this.explicitNameAssociations.delete(linkPath);
+		}
+
+		for (const [link, text] of this.fileLinkTexts.get(filePath) ?? []) {
+			const texts = this.implicitNameAssociations.get(link);
+			const index = texts?.indexOf(text) ?? -1;
+			if (index !== -1) texts!.splice(index, 1);
+		}
+		this.fileLinkTexts.delete(filePath);
 
 		return this;
 	}
@@ -273,6 +550,52 @@ export class SiteMapBuilder {
 	 * Add unresolved links to the map and determine backlinks for each entry
 	 */
 	process() {
+		// EXPL: Drop results of a previous call, so the builder can be processed again after incremental updates
+		this.resolvedNames.clear();
+		for (const [link, entry] of this.map) {
+			if (entry.filePath === undefined || entry.heading) {
+				this.map.delete(link);
+			} else {
+				entry.backlinks.clear();
+				delete entry.parent;
+				for (const wikilink of this.wikilinkLinks.get(link) ?? []) {
+					entry.links.delete(wikilink);
+				}
+			}
+		}
+		this.wikilinkLinks.clear();
+		this.wikilinkTexts.clear();
+		this.wikilinkCounts.clear();
+
+		for (const [page, headings] of this.headings) {
+			const entry = this.map.get(page);
+			if (!entry) continue;
+
+			for (const heading of headings) {
+				const linkPath = `${page}#${heading.anchor}`;
+				this.map.set(linkPath, {
+					external: false,
+					filePath: entry.filePath,
+					linkPath,
+					tags: new Set(),
+					links: new Set(),
+					backlinks: new Set(),
+					nodeStyle: {},
+					heading: { page, level: heading.level },
+				});
+				// EXPL: Headings are always named after their text
+				this.resolvedNames.set(linkPath, heading.text);
+			}
+		}
+
+		if (this.config.resolveWikilinks) {
+			this.resolveWikilinks();
+		}
+
+		if (this.config.hierarchy !== 'none') {
+			this.addHierarchy();
+		}
+
 		for (const [_, entry] of this.map) {
 			for (const link of entry.links) {
 				if (!this.map.has(link)) {
@@ -298,15 +621,175 @@ export class SiteMapBuilder {
 		return this;
 	}
 
+	/**
+	 * Connect every page to its parent in the folder hierarchy, adding folder entries if `hierarchy` is set to `folders`
+	 * @remarks The hierarchy does not extend beyond the base path of the website
+	 */
+	private addHierarchy() {
+		const root = setSlashes(this.basePath ?? '', true, this.addTrailingSlash);
+		const isPage = (linkPath: string) => {
+			const entry = this.map.get(linkPath);
+			return !!entry && entry.filePath !== undefined && !entry.heading;
+		};
+		const getParentPath = (linkPath: string) => {
+			const trimmed = setSlashes(linkPath, false, false);
+			return setSlashes(trimmed.slice(0, Math.max(trimmed.lastIndexOf('/'), 0)), true, this.addTrailingSlash);
+		};
+
+		for (const entry of [...this.map.values()]) {
+			if (entry.filePath === undefined || entry.heading) continue;
+
+			if (this.config.hierarchy === 'pages') {
+				// EXPL: Folders without a page are skipped, the page is connected to the closest page above it
+				let parent = entry.linkPath;
+				while (parent !== root && parent !== '/') {
+					parent = getParentPath(parent);
+					if (isPage(parent)) {
+						entry.parent = parent;
+						break;
+					}
+				}
+				continue;
+			}
+
+			let current = entry;
+			while (current.linkPath !== root && current.linkPath !== '/') {
+				const parent = getParentPath(current.linkPath);
+				current.parent = parent;
+				if (this.map.has(parent)) break;
+
+				const segments = setSlashes(parent, false, false).split('/');
+				this.map.set(parent, {
+					external: false,
+					filePath: undefined,
+					linkPath: parent,
+					tags: new Set(),
+					links: new Set(),
+					backlinks: new Set(),
+					nodeStyle: {},
+					folder: true,
+				});
+				this.resolvedNames.set(parent, segments.at(-1) || parent);
+				current = this.map.get(parent)!;
+			}
+		}
+	}
+
+	/**
+	 * Add the targets of all wikilinks as links to the pages containing them
+	 * @remarks Wikilinks can only be resolved once all pages are known, the added links are tracked so they can be removed again
+	 */
+	private resolveWikilinks() {
+		const index = new Map<string, string[]>();
+		const addToIndex = (key: string, linkPath: string) => {
+			key = key.toLowerCase();
+			const linkPaths = index.get(key) ?? [];
+			if (!linkPaths.includes(linkPath)) linkPaths.push(linkPath);
+			index.set(key, linkPaths);
+		};
+
+		// EXPL: Keys are added in order of precedence (path > title > file name > slug), which determines the order of matches
+		const pages = [...this.fileLinkPaths].filter(([_, linkPath]) => this.map.has(linkPath) && !this.excludedPaths.has(linkPath));
+		const keyFunctions: ((filePath: string, linkPath: string) => string[])[] = [
+			(filePath) => [path.relative(this.contentRoot!, filePath).replace(/\\/g, '/').slice(0, -path.extname(filePath).length)],
+			(_, linkPath) => {
+				const title = this.explicitNameAssociations.get(linkPath);
+				return title ? [title] : [];
+			},
+			(filePath) => [path.basename(filePath, path.extname(filePath))],
+			(filePath, linkPath) => {
+				const slug = trimSlashes(this.explicitSlugAssociations.get(linkPath) ?? this.getLinkPath(filePath, this.contentRoot!, ''));
+				return [slug, slug.split('/').pop()!];
+			},
+		];
+		for (const getKeys of keyFunctions) {
+			for (const [filePath, linkPath] of pages) {
+				for (const key of getKeys(filePath, linkPath)) {
+					addToIndex(key, linkPath);
+				}
+			}
+		}
+
+		for (const [linkPath, wikilinks] of this.wikilinks) {
+			const entry = this.map.get(linkPath);
+			if (!entry) continue;
+
+			const currentLinkRules = (this.frontmatterData.get(linkPath)?.data?.sitemap?.linkInclusionRules ?? []).concat(
+				this.config.linkInclusionRules,
+			);
+			const addedLinks = new Set<string>();
+			const linkCounts = new Map<string, number>();
+
+			for (const wikilink of wikilinks) {
+				const target = wikilink.target.replace(/\\/g, '/');
+				const matches = [...new Set([target, slugifyPath(target)].flatMap(key => index.get(key.toLowerCase()) ?? []))];
+				let link = this.pickWikilinkMatch(linkPath, matches) ?? this.resolveLink(linkPath, ensureLeadingSlash(target), new Set());
+				if (link && this.config.includeHeadings && wikilink.heading) {
+					link += `#${slug(wikilink.heading)}`;
+				}
+				if (!link || link === linkPath) continue;
+				if (currentLinkRules.length && !firstMatchingPattern(link, currentLinkRules, false)) continue;
+
+				if (!entry.links.has(link)) {
+					entry.links.add(link);
+					addedLinks.add(link);
+				}
+				linkCounts.set(link, (linkCounts.get(link) ?? 0) + 1);
+				if (wikilink.alias) {
+					this.wikilinkTexts.set(link, [...(this.wikilinkTexts.get(link) ?? []), wikilink.alias]);
+				}
+			}
+
+			if (addedLinks.size) {
+				this.wikilinkLinks.set(linkPath, addedLinks);
+			}
+			if (linkCounts.size) {
+				this.wikilinkCounts.set(linkPath, linkCounts);
+			}
+		}
+	}
+
+	/**
+	 * Pick the page a wikilink refers to from all pages matching its target, based on `wikilinkAmbiguityStrategy`
+	 * @param current - The link path of the page containing the wikilink
+	 * @param matches - The link paths of all matching pages, in order of precedence
+	 */
+	private pickWikilinkMatch(current: string, matches: string[]) {
+		if (matches.length <= 1) {
+			return matches[0];
+		}
+
+		switch (this.config.wikilinkAmbiguityStrategy) {
+			case 'first':
+				return matches[0];
+			case 'closest': {
+				const currentSegments = trimSlashes(current).split('/');
+				const sharedSegments = (linkPath: string) => {
+					const segments = trimSlashes(linkPath).split('/');
+					let i = 0;
+					while (i < segments.length - 1 && segments[i] === currentSegments[i]) i++;
+					return i;
+				};
+				// EXPL: On ties, the match with the highest precedence wins
+				return matches.reduce((a, b) => (sharedSegments(b) > sharedSegments(a) ? b : a));
+			}
+			case 'unresolved':
+				return undefined;
+		}
+	}
+
 	/**
 	 * Resolve the name for a link path based on the official associations, implicit associations, or fallback to the path basename
 	 * @param linkPath - The link path to get the name for
 	 */
 	private resolveLinkName(linkPath: string) {
-		let name = this.explicitNameAssociations.get(linkPath);
+		let name = this.explicitNameAssociations.get(linkPath) ?? this.resolvedNames.get(linkPath);
 		if (name === undefined) {
 			if (this.config.pageTitleFallbackStrategy === 'linkText') {
-				name = getMostCommonItem([...this.implicitNameAssociations.get(linkPath) ?? []]);
+				name = getMostCommonItem([
+					...this.implicitNameAssociations.get(linkPath) ?? [],
+					...this.wikilinkTexts.get(linkPath) ?? [],
+				]);
 			}
 
 			if (name === undefined) {
@@ -314,7 +797,7 @@ export class SiteMapBuilder {
 			}
 
 			// EXPL: Cache the implicit association for future use
-			this.explicitNameAssociations.set(linkPath, name);
+			this.resolvedNames.set(linkPath, name);
 		}
 
 		return name;
@@ -330,6 +813,11 @@ export class SiteMapBuilder {
 					? [...entry.backlinks].sort((x, y) => this.resolveLinkName(x).localeCompare(this.resolveLinkName(y)))
 					: undefined;
 
+				const linkTypes = [...(entry.linkTypes ?? [])].filter(([link]) => entry.links.has(link));
+				const linkWeights = this.config.linkWeights === 'none' ? [] : [...entry.links]
+					.map(link => [link, (entry.linkWeights?.get(link) ?? 0) + (this.wikilinkCounts.get(entry.linkPath)?.get(link) ?? 0)] as const)
+					.filter(([_, weight]) => weight > 1);
+
 				let nodeStyle = entry.nodeStyle;
 				if (this.config.styleRules.length) {
 					for (const [rules, style] of this.config.styleRules) {
@@ -346,17 +834,88 @@ export class SiteMapBuilder {
 				return [entry.linkPath, {
 					external: entry.external,
 					// FIXME: a file that has no link entries is incorrectly marked as non-existent
-					exists: this.encounteredFiles.has(entry.linkPath) || entry.external,
+					exists: this.encounteredFiles.has(entry.linkPath) || entry.external || !!entry.heading || !!entry.folder,
 					title: this.resolveLinkName(entry.linkPath),
+					description: this.config.includeDescriptions ? entry.description : undefined,
 					tags: entry.tags.size ? [...entry.tags].map(ensureLeadingPound) : undefined,
 					links: entry.links.size ? [...entry.links] : undefined,
+					linkTypes: linkTypes.length ? Object.fromEntries(linkTypes) : undefined,
+					linkWeights: linkWeights.length ? Object.fromEntries(linkWeights) : undefined,
 					backlinks: backlinks,
 					nodeStyle: Object.keys(nodeStyle).length ? nodeStyle : undefined,
+					heading: entry.heading,
+					parent: entry.parent,
+					folder: entry.folder,
 				}];
 			}),
 		);
 	}
 
+	/**
+	 * Check whether a link points to a file rather than a page, either by its extension (e.g. `/downloads/file.pdf`)
+	 * or by the file existing in the output folder of the build
+	 */
+	private isFileLink(target: string, outputFolder: string | undefined): boolean {
+		const filePath = trimSlashes(target.split('#')[0]!);
+		if (path.posix.extname(filePath)) return true;
+		if (!outputFolder) return false;
+
+		// EXPL: Depending on the adapter, the output folder may or may not contain the base path
+		const candidates = [filePath];
+		if (this.basePath && filePath.startsWith(this.basePath + '/')) {
+			candidates.push(filePath.slice(this.basePath.length + 1));
+		}
+		return candidates.some(candidate => fs.existsSync(path.join(outputFolder, candidate)));
+	}
+
+	/**
+	 * Get all internal links pointing to pages that were never encountered
+	 * @param outputFolder - The output folder of the build, links to files within it are not broken
+	 * @remarks Only accurate after `process()` was called
+	 */
+	getBrokenLinks(outputFolder?: string): BrokenLink[] {
+		const brokenLinks: BrokenLink[] = [];
+		for (const [source, entry] of this.map) {
+			if (entry.filePath === undefined) continue;
+
+			const linkTexts = this.fileLinkTexts.get(entry.filePath) ?? [];
+			for (const target of entry.links) {
+				const targetEntry = this.map.get(target);
+				// EXPL: Other protocols (e.g. `mailto:`) are never resolved, but are not broken either
+				if (!target.startsWith('/') || targetEntry?.external || targetEntry?.heading || this.encounteredFiles.has(target)) {
+					continue;
+				}
+				// EXPL: Links to assets and to pages outside `pageInclusionRules` do not lead to pages of the sitemap, but are valid
+				if (this.skippedPaths.has(target) || this.isFileLink(target, outputFolder)) {
+					continue;
+				}
+
+				brokenLinks.push({
+					source,
+					target,
+					text: linkTexts.find(([link]) => link === target)?.[1] ?? getMostCommonItem([
+						...this.implicitNameAssociations.get(target) ?? [],
+						...this.wikilinkTexts.get(target) ?? [],
+					]),
+					file: entry.filePath,
+				});
+			}
+		}
+
+		return brokenLinks.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+	}
+
+	/**
+	 * Register the text of a link, used to determine the name of the linked page
+	 * @param filePath - The file the link was found in
+	 * @param link - The resolved link path
+	 * @param text - The text of the link
+	 */
+	private addLinkText(filePath: string, link: string, text: string) {
+		this.implicitNameAssociations.set(link, [...(this.implicitNameAssociations.get(link) ?? []), text]);
+		this.fileLinkTexts.set(filePath, [...(this.fileLinkTexts.get(filePath) ?? []), [link, text]]);
+	}
+
 	private resolveLink(current: string, link: string, links: Set<string>) {
 		if (!(link.startsWith('http') || link.startsWith('mailto:'))) {
 			// Leads to the current page, so it can be safely ignored
@@ -369,7 +928,17 @@ export class SiteMapBuilder {
 			} else if (this.basePath !== '' && !trimSlashes(link).startsWith(this.basePath)) {
 				link = path.join(this.basePath, link);
 			}
-			link = setSlashes(slugifyPath(link.split('#')[0]!.replace(/\\/g, '/')), true, this.addTrailingSlash);
+			const [linkPath, anchor] = link.split('#');
+			const extension = path.posix.extname(linkPath!.replace(/\\/g, '/'));
+			// EXPL: Links to files (e.g. `/downloads/file.pdf`) keep their path, as they do not lead to pages
+			if (extension && extension !== '.html') {
+				link = ensureLeadingSlash(linkPath!.replace(/\\/g, '/'));
+			} else {
+				link = setSlashes(slugifyPath(linkPath!.replace(/\\/g, '/')), true, this.addTrailingSlash);
+			}
+			if (this.config.includeHeadings && anchor) {
+				link += `#${safeDecodeURIComponent(anchor)}`;
+			}
 			if (link !== current) {
 				links.add(link);
 				return link;
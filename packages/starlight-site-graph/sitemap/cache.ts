@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+// EXPL: Bump whenever the shape of the cached data or the way it is extracted changes, invalidating all existing caches
+const CACHE_VERSION = 8;
+const CACHE_FILE = 'starlight-site-graph/sitemap-cache.json';
+
+interface CacheEntry<T = unknown> {
+	hash: string;
+	data: T;
+}
+
+interface CacheFile {
+	version: number;
+	configHash: string;
+	files: Record<string, CacheEntry>;
+}
+
+/**
+ * On-disk cache of the data extracted from content files, keyed by file path and content hash
+ */
+export class SitemapCache {
+	private files: Map<string, CacheEntry> = new Map();
+	private usedFiles: Set<string> = new Set();
+	private readonly cachePath: string;
+	private readonly configHash: string;
+
+	/**
+	 * @param cacheDir - The directory the cache file is stored in
+	 * @param config - All settings that affect the extracted data, the cache is discarded when these change
+	 */
+	constructor(cacheDir: string, config: unknown) {
+		this.cachePath = path.join(cacheDir, CACHE_FILE);
+		this.configHash = SitemapCache.hashContent(JSON.stringify([CACHE_VERSION, config]));
+	}
+
+	static hashContent(content: string) {
+		return crypto.createHash('sha1').update(content).digest('hex');
+	}
+
+	/**
+	 * Load the cache from disk, an outdated or unreadable cache is silently discarded
+	 */
+	async load() {
+		this.files.clear();
+		try {
+			const cache = JSON.parse(await fs.promises.readFile(this.cachePath, 'utf8')) as CacheFile;
+			if (cache.version === CACHE_VERSION && cache.configHash === this.configHash) {
+				this.files = new Map(Object.entries(cache.files));
+			}
+		} catch {
+			// EXPL: Cache does not exist yet, or was corrupted
+		}
+		return this;
+	}
+
+	/**
+	 * Write the cache to disk
+	 * @param prune - Remove entries of files that were not requested since the cache was loaded
+	 */
+	async save(prune: boolean = false) {
+		if (prune) {
+			for (const filePath of this.files.keys()) {
+				if (!this.usedFiles.has(filePath)) {
+					this.files.delete(filePath);
+				}
+			}
+		}
+
+		const cache: CacheFile = {
+			version: CACHE_VERSION,
+			configHash: this.configHash,
+			files: Object.fromEntries(this.files),
+		};
+		await fs.promises.mkdir(path.dirname(this.cachePath), { recursive: true });
+		await fs.promises.writeFile(this.cachePath, JSON.stringify(cache));
+	}
+
+	get<T>(filePath: string, hash: string): T | undefined {
+		this.usedFiles.add(filePath);
+		const entry = this.files.get(filePath);
+		return entry?.hash === hash ? entry.data as T : undefined;
+	}
+
+	set<T>(filePath: string, hash: string, data: T) {
+		this.usedFiles.add(filePath);
+		this.files.set(filePath, { hash, data });
+	}
+}
@@ -0,0 +1,232 @@
+import type { GraphConfig, NodeStyle, RemoveOptional, Sitemap, SitemapEntry } from '../config';
+import { firstMatchingPattern, simplifySlug } from './util';
+
+/**
+ * Graph config options that determine the prepared graph data
+ * @remarks If any of these options differ from the options the data was prepared with, the data has to be prepared again
+ */
+const PREPARATION_CONFIG_KEYS = [
+	'nodeInclusionRules',
+	'renderUnresolved',
+	'renderExternal',
+	'renderHeadings',
+	'renderHierarchy',
+	'tagRenderMode',
+	'tagStyles',
+	'nodeExternalStyle',
+	'nodeHeadingStyle',
+	'nodeOrphanStyle',
+	'nodeFolderStyle',
+	'nodeUnresolvedStyle',
+] as const satisfies (keyof GraphConfig)[];
+
+export type PreparationConfig = Pick<RemoveOptional<GraphConfig>, typeof PREPARATION_CONFIG_KEYS[number]>;
+
+export type MetricScale = {
+	neighbors: number;
+	pageRank: number;
+	betweenness: number;
+};
+
+export type PreparedNode = Omit<SitemapEntry, 'nodeStyle'> & {
+	/** Style applied on top of `nodeDefaultStyle`, overridden by the visited style */
+	baseStyle?: Partial<NodeStyle>;
+	/** Style applied on top of the visited style, overridden by the current style */
+	pageStyle?: Partial<NodeStyle>;
+	/** Style applied on top of the current style */
+	finalStyle?: Partial<NodeStyle>;
+	/** Pages and folders whose parent is this node in the folder hierarchy */
+	children?: string[];
+	/** Position of the node in the layout computed at build time, see `computeLayout` */
+	x?: number;
+	y?: number;
+};
+
+export type PreparedGraphData = {
+	/** Identifies the options the data was prepared with, see `getPreparationKey` */
+	key: string;
+	/** The highest value of every size metric, used to scale continuous metrics */
+	metricScale: MetricScale;
+	nodes: Record<string, PreparedNode>;
+};
+
+/**
+ * Get a key identifying all options that determine the prepared graph data
+ */
+export function getPreparationKey(config: PreparationConfig, trailingSlashes: boolean) {
+	return JSON.stringify([trailingSlashes, ...PREPARATION_CONFIG_KEYS.map(key => config[key] ?? null)]);
+}
+
+/**
+ * Get all nodes connected to a node, by links in either direction or by the folder hierarchy
+ */
+export function getNeighbours(node: PreparedNode): string[] {
+	return [...(node.links ?? []), ...(node.backlinks ?? []), ...(node.parent ? [node.parent] : []), ...(node.children ?? [])];
+}
+
+function mergeStyles(...styles: (Partial<NodeStyle> | undefined | false)[]): Partial<NodeStyle> | undefined {
+	const style = Object.assign({}, ...styles.filter(Boolean)) as Partial<NodeStyle>;
+	return Object.keys(style).length ? style : undefined;
+}
+
+export function computeSizes(style: NodeStyle, neighborCount: number): { computedSize: number, fullRadius: number, colliderSize: number } {
+	// Magick radius calculations
+	const scaleFactor = Math.max(
+		0.00000001,
+		(-9.67101 * 0.99868 ** neighborCount + 10.6354) ** style.neighborScale * style.nodeScale,
+	);
+	const computedSize = style.shapeSize * scaleFactor,
+		fullRadius = computedSize + style.strokeWidth / 2,
+		colliderSize = fullRadius * style.colliderScale;
+	return { computedSize, fullRadius, colliderSize };
+}
+
+export function getSizeMetricValue(style: NodeStyle, node: PreparedNode, neighborCount: number, scale: MetricScale): number {
+	switch (style.sizeMetric) {
+		case 'inDegree':
+			return node.metrics?.inDegree ?? node.backlinks?.length ?? 0;
+		case 'outDegree':
+			return node.metrics?.outDegree ?? node.links?.length ?? 0;
+		case 'pageRank':
+			return scale.pageRank ? (node.metrics?.pageRank ?? 0) / scale.pageRank * scale.neighbors : 0;
+		case 'betweenness':
+			return scale.betweenness ? (node.metrics?.betweenness ?? 0) / scale.betweenness * scale.neighbors : 0;
+		default:
+			return neighborCount;
+	}
+}
+
+/**
+ * Prepare the sitemap for rendering in the graph, everything that does not depend on the current page,
+ * visited pages or graph depth is resolved here
+ * @remarks Used both at build time (for the sitemap written to the output directory), and in the browser
+ *   when the graph config differs from the config the data was prepared with
+ */
+export function prepareGraphData(sitemap: Sitemap, config: PreparationConfig, trailingSlashes: boolean): PreparedGraphData {
+	let corrected_data = Object.entries(sitemap).map(([k, v]) => {
+		return [(k.startsWith("http") || k.startsWith("mailto:")) ? k : simplifySlug(k, trailingSlashes), v] as const
+	});
+	if (config.nodeInclusionRules && (config.nodeInclusionRules.length > 1 || config.nodeInclusionRules[0] !== "**/*")) {
+		corrected_data = corrected_data.filter(([k, _]) => {
+			return firstMatchingPattern(k, config.nodeInclusionRules, true)
+		});
+	}
+
+	if (!config.renderUnresolved) {
+		corrected_data = corrected_data.filter(([_, v]) => v.exists);
+	}
+	if (!config.renderExternal) {
+		corrected_data = corrected_data.filter(([_, v]) => !v.external);
+	}
+	if (!config.renderHierarchy) {
+		corrected_data = corrected_data.filter(([_, v]) => !v.folder);
+	}
+
+	const data = new Map<string, SitemapEntry>(corrected_data);
+
+	// EXPL: Children are only determined once all excluded entries have been removed, so the hierarchy never refers to missing nodes
+	const children = new Map<string, string[]>();
+	for (const [id, entry] of data) {
+		const parent = entry.parent && simplifySlug(entry.parent, trailingSlashes);
+		if (config.renderHierarchy && parent && data.has(parent)) {
+			data.set(id, { ...entry, parent });
+			children.set(parent, [...(children.get(parent) ?? []), id]);
+		} else if (entry.parent) {
+			const { parent: _, ...rest } = entry;
+			data.set(id, rest);
+		}
+	}
+
+	const headingPages = new Map<string, string>();
+	for (const [id, entry] of data) {
+		if (entry.heading) {
+			headingPages.set(id, simplifySlug(entry.heading.page, trailingSlashes));
+		}
+	}
+
+	// EXPL: Determined before the headings are processed, as a link to a heading also counts as a backlink to its page
+	const linkedPages = new Set<string>();
+	for (const [id, page] of headingPages) {
+		if (data.get(id)!.backlinks?.length) linkedPages.add(page);
+	}
+	const orphanPages = new Set<string>();
+	for (const [id, entry] of data) {
+		if (entry.exists && !entry.external && !entry.heading && !entry.folder && !entry.backlinks?.length && !linkedPages.has(id)) {
+			orphanPages.add(id);
+		}
+	}
+	if (config.renderHeadings) {
+		// EXPL: Headings are connected to their page like regular links, so they are also reached while traversing the graph
+		for (const [id, page] of headingPages) {
+			const pageEntry = data.get(page);
+			if (!pageEntry) {
+				data.delete(id);
+				continue;
+			}
+			data.set(page, { ...pageEntry, links: [...(pageEntry.links ?? []), id] });
+			data.set(id, { ...data.get(id)!, backlinks: [...(data.get(id)!.backlinks ?? []), page] });
+		}
+	} else if (headingPages.size) {
+		// EXPL: Links to a heading are redirected to its page
+		const collapse = (links: string[] | undefined, id: string) =>
+			links && [...new Set(links.map(link => headingPages.get(link) ?? link))].filter(link => link !== id);
+		// EXPL: The weights of all links to a page and its headings are added up
+		const collapseWeights = (entry: SitemapEntry, id: string) => {
+			const weights: Record<string, number> = {};
+			for (const link of entry.links ?? []) {
+				const target = headingPages.get(link) ?? link;
+				if (target !== id) weights[target] = (weights[target] ?? 0) + (entry.linkWeights?.[link] ?? 1);
+			}
+			return Object.fromEntries(Object.entries(weights).filter(([_, weight]) => weight > 1));
+		};
+		for (const id of headingPages.keys()) {
+			data.delete(id);
+		}
+		for (const [id, entry] of data) {
+			const linkTypes = entry.linkTypes &&
+				Object.fromEntries(Object.entries(entry.linkTypes).map(([link, type]) => [headingPages.get(link) ?? link, type]));
+			data.set(id, {
+				...entry,
+				links: collapse(entry.links, id),
+				linkTypes,
+				linkWeights: entry.linkWeights && collapseWeights(entry, id),
+				backlinks: collapse(entry.backlinks, id),
+			});
+		}
+	}
+
+	// EXPL: Continuous metrics are mapped onto the range of neighbor counts, so they can be scaled by the same formula
+	const metricScale: MetricScale = { neighbors: 0, pageRank: 0, betweenness: 0 };
+	const nodes: Record<string, PreparedNode> = {};
+	for (const [id, { nodeStyle, ...entry }] of data) {
+		metricScale.neighbors = Math.max(metricScale.neighbors, (entry.links?.length ?? 0) + (entry.backlinks?.length ?? 0));
+		metricScale.pageRank = Math.max(metricScale.pageRank, entry.metrics?.pageRank ?? 0);
+		metricScale.betweenness = Math.max(metricScale.betweenness, entry.metrics?.betweenness ?? 0);
+
+		// Chain of declarations determines style priority, the visited and current styles are applied in between
+		const baseStyle = mergeStyles(
+			entry.external && config.nodeExternalStyle as Partial<NodeStyle>,
+			!!entry.heading && config.nodeHeadingStyle as Partial<NodeStyle>,
+			!!entry.folder && config.nodeFolderStyle as Partial<NodeStyle>,
+		);
+		const pageStyle = mergeStyles(
+			(config.tagRenderMode === 'same' || config.tagRenderMode === 'both') &&
+				(entry.tags ?? []).reduce((acc, tag) => ({ ...acc, ...config.tagStyles[tag] }), {}) as Partial<NodeStyle>,
+			orphanPages.has(id) && config.nodeOrphanStyle as Partial<NodeStyle>,
+		);
+		const finalStyle = mergeStyles(
+			!entry.exists && config.nodeUnresolvedStyle as Partial<NodeStyle>,
+			nodeStyle as Partial<NodeStyle> | undefined,
+		);
+
+		nodes[id] = {
+			...entry,
+			...(children.has(id) ? { children: children.get(id)! } : {}),
+			...(baseStyle ? { baseStyle } : {}),
+			...(pageStyle ? { pageStyle } : {}),
+			...(finalStyle ? { finalStyle } : {}),
+		};
+	}
+
+	return { key: getPreparationKey(config, trailingSlashes), metricScale, nodes };
+}
@@ -0,0 +1,47 @@
+import * as d3 from 'd3';
+
+import type { GraphConfig, NodeStyle, RemoveOptional } from '../config';
+import { applyForces, type ForceConfig, type ForceNode } from '../components/graph/forces';
+import { DEFAULT_STROKE_WIDTH } from '../components/graph/constants';
+import { computeSizes, getNeighbours, getSizeMetricValue, type PreparedGraphData } from './graph-data';
+
+// EXPL: Only reached if `alphaDecay` is very small, in which case the simulation would never settle
+const MAX_LAYOUT_TICKS = 1000;
+
+export type LayoutConfig = ForceConfig & Pick<RemoveOptional<GraphConfig>, 'nodeDefaultStyle'>;
+
+/**
+ * Run the force simulation of the graph on all nodes of the graph data until it settles,
+ * and store the resulting position in the `x` and `y` fields of every node
+ * @remarks The simulation starts from the same initial positions every time, so the same graph data always results in the same layout.
+ *   Tag nodes are created by the graph itself, and are thus not part of the layout.
+ */
+export function computeLayout(graphData: PreparedGraphData, config: LayoutConfig): PreparedGraphData {
+	const nodes: ForceNode[] = Object.entries(graphData.nodes).map(([id, node]) => {
+		const style = { ...config.nodeDefaultStyle, ...node.baseStyle, ...node.pageStyle, ...node.finalStyle } as NodeStyle;
+		const neighborCount = new Set(getNeighbours(node)).size;
+		const { colliderSize } = computeSizes(
+			// EXPL: Mirrors the stroke width resolution of the graph, so the collider sizes match
+			{ ...style, strokeWidth: style.strokeWidth ?? (style.strokeColor ? DEFAULT_STROKE_WIDTH : 0) },
+			getSizeMetricValue(style, node, neighborCount, graphData.metricScale),
+		);
+		return { id, colliderSize };
+	});
+	const links = Object.entries(graphData.nodes).flatMap(([source, node]) =>
+		[...(node.links ?? []), ...(node.parent ? [node.parent] : [])]
+			.filter(target => target in graphData.nodes)
+			.map(target => ({ source, target, weight: node.linkWeights?.[target] }))
+	);
+
+	const simulation = applyForces(d3.forceSimulation(nodes).stop(), links, config);
+	const ticks = Math.ceil(Math.log(simulation.alphaMin()) / Math.log(1 - simulation.alphaDecay()));
+	simulation.tick(Number.isFinite(ticks) ? Math.min(ticks, MAX_LAYOUT_TICKS) : MAX_LAYOUT_TICKS);
+
+	for (const node of nodes) {
+		// EXPL: The positions are only a starting point for the simulation in the browser, so sub-pixel precision is not needed
+		graphData.nodes[node.id]!.x = Math.round(node.x! * 10) / 10;
+		graphData.nodes[node.id]!.y = Math.round(node.y! * 10) / 10;
+	}
+
+	return graphData;
+}
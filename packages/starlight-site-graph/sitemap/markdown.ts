@@ -0,0 +1,156 @@
+import type { Definition, Root } from 'mdast';
+import type { MdxJsxAttribute } from 'mdast-util-mdx-jsx';
+
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { mdxFromMarkdown } from 'mdast-util-mdx';
+import { toString } from 'mdast-util-to-string';
+import { gfm } from 'micromark-extension-gfm';
+import { mdxjs } from 'micromark-extension-mdxjs';
+import { visit } from 'unist-util-visit';
+import GithubSlugger from 'github-slugger';
+
+export interface MarkdownLink {
+	url: string;
+	text: string;
+}
+
+export interface Wikilink {
+	/** The page the wikilink refers to, e.g. `Page` in `[[Page#Heading|alias]]` */
+	target: string;
+	/** The heading of the page the wikilink refers to, e.g. `Heading` in `[[Page#Heading|alias]]` */
+	heading?: string;
+	/** The displayed text of the wikilink, e.g. `alias` in `[[Page#Heading|alias]]` */
+	alias?: string;
+}
+
+export interface MarkdownHeading {
+	/** The `id` of the heading in the generated HTML */
+	anchor: string;
+	text: string;
+	level: number;
+}
+
+// EXPL: Embeds (`![[Page]]`) are matched as well, so they can be skipped
+const WIKILINK_REGEX = /(!?)\[\[([^[\]|#]*)(?:#([^[\]|]*))?(?:\|([^[\]]*))?\]\]/g;
+
+/**
+ * Parse the body of a Markdown file (without frontmatter) into an mdast tree
+ * @param content - The Markdown content to parse
+ * @param mdx - Whether the content should be parsed as MDX
+ * @remarks MDX is stricter than Markdown, if the content is not valid MDX, it will be parsed as regular Markdown instead
+ */
+export function parseMarkdown(content: string, mdx: boolean = false): Root {
+	if (mdx) {
+		try {
+			return fromMarkdown(content, {
+				extensions: [mdxjs(), gfm()],
+				mdastExtensions: [mdxFromMarkdown(), gfmFromMarkdown()],
+			});
+		} catch {
+			// EXPL: Falls through to the regular Markdown parser, which never throws
+		}
+	}
+
+	return fromMarkdown(content, {
+		extensions: [gfm()],
+		mdastExtensions: [gfmFromMarkdown()],
+	});
+}
+
+/**
+ * Extract all links from an mdast tree, in order of appearance
+ * @remarks Links in code, inline code, HTML and comments never produce link nodes, and are thus ignored.
+ *   Images are ignored as well, though their alt text is used as the link text if an image is wrapped in a link.
+ */
+export function extractMarkdownLinks(tree: Root): MarkdownLink[] {
+	const links: MarkdownLink[] = [];
+
+	// EXPL: Definitions may appear anywhere in the document, including after the references that use them
+	const definitions = new Map<string, Definition>();
+	visit(tree, 'definition', node => {
+		if (!definitions.has(node.identifier)) {
+			definitions.set(node.identifier, node);
+		}
+	});
+
+	visit(tree, node => {
+		if (node.type === 'link') {
+			links.push({ url: node.url, text: toString(node).trim() });
+		} else if (node.type === 'linkReference') {
+			const definition = definitions.get(node.identifier);
+			if (definition) {
+				// EXPL: Collapsed and shortcut references (`[text][]` and `[text]`) have no children besides the label
+				links.push({ url: definition.url, text: toString(node).trim() || (node.label ?? '') });
+			}
+		} else if ((node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') && node.name === 'a') {
+			const href = node.attributes.find(
+				(attr): attr is MdxJsxAttribute => attr.type === 'mdxJsxAttribute' && attr.name === 'href'
+			)?.value;
+			if (typeof href === 'string') {
+				links.push({ url: href, text: toString(node).trim() });
+			}
+		}
+	});
+
+	return links;
+}
+
+/**
+ * Extract all wikilinks (`[[Page]]`, `[[Page|alias]]` and `[[Page#Heading]]`) from an mdast tree, in order of appearance
+ * @remarks Only text nodes are searched, so wikilinks in code, inline code, HTML and comments are ignored.
+ *   Embeds (`![[Page]]`) are ignored as well.
+ */
+export function extractWikilinks(tree: Root): Wikilink[] {
+	const wikilinks: Wikilink[] = [];
+
+	visit(tree, 'text', node => {
+		for (const [_, embed, target, heading, alias] of node.value.matchAll(WIKILINK_REGEX)) {
+			if (embed || !target?.trim()) continue;
+
+			wikilinks.push({
+				target: target.trim(),
+				...(heading?.trim() ? { heading: heading.trim() } : {}),
+				...(alias?.trim() ? { alias: alias.trim() } : {}),
+			});
+		}
+	});
+
+	return wikilinks;
+}
+
+/**
+ * Extract the text of the first paragraph from an mdast tree, with wikilinks replaced by their displayed text
+ * @remarks Only top-level paragraphs are considered, so text within components, lists, tables and asides is skipped
+ */
+export function extractFirstParagraph(tree: Root): string | undefined {
+	const paragraph = tree.children.find(node => node.type === 'paragraph');
+	if (!paragraph) return undefined;
+
+	const text = toString(paragraph).replace(WIKILINK_REGEX, (_, embed, target, heading, alias) =>
+		embed ? '' : (alias ?? (heading ? `${target} > ${heading}` : target)).trim(),
+	);
+	return text.trim() || undefined;
+}
+
+/**
+ * Extract all headings from an mdast tree, in order of appearance
+ * @param tree - The mdast tree to extract the headings from
+ * @param levels - The heading levels to include
+ * @remarks Anchors are generated the same way as Astro does, duplicate headings get a numbered suffix
+ */
+export function extractMarkdownHeadings(tree: Root, levels: number[]): MarkdownHeading[] {
+	const headings: MarkdownHeading[] = [];
+	const slugger = new GithubSlugger();
+
+	visit(tree, 'heading', node => {
+		const text = toString(node).trim();
+		// EXPL: The slugger has to see every heading to generate the same suffixes for duplicates
+		const anchor = slugger.slug(text);
+		if (text && levels.includes(node.depth)) {
+			headings.push({ anchor, text, level: node.depth });
+		}
+	});
+
+	return headings;
+}
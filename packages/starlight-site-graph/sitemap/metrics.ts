@@ -0,0 +1,238 @@
+import type { Sitemap, SitemapMetrics } from '../config';
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-8;
+
+const LOUVAIN_EPSILON = 1e-10;
+
+// EXPL: Keeps the sitemap small, metrics are only used for relative comparisons
+const METRIC_PRECISION = 6;
+
+interface IndexedGraph {
+	ids: string[];
+	/** Outgoing neighbours of every node, without duplicates or self-loops */
+	outgoing: number[][];
+	/** Incoming neighbours of every node, without duplicates or self-loops */
+	incoming: number[][];
+}
+
+function toIndexedGraph(sitemap: Sitemap): IndexedGraph {
+	// EXPL: Folders are not pages, and would only dilute the metrics of the pages
+	const ids = Object.keys(sitemap).filter(id => !sitemap[id]!.folder).sort();
+	const indices = new Map(ids.map((id, i) => [id, i]));
+	const outgoing: number[][] = ids.map(() => []);
+	const incoming: number[][] = ids.map(() => []);
+
+	for (const [i, id] of ids.entries()) {
+		const targets = new Set<number>();
+		for (const link of sitemap[id]!.links ?? []) {
+			const j = indices.get(link);
+			if (j !== undefined && j !== i) targets.add(j);
+		}
+		for (const j of targets) {
+			outgoing[i]!.push(j);
+			incoming[j]!.push(i);
+		}
+	}
+
+	return { ids, outgoing, incoming };
+}
+
+function round(value: number) {
+	return Number(value.toPrecision(METRIC_PRECISION));
+}
+
+/**
+ * Compute the PageRank of every node, the ranks of all nodes sum up to 1
+ * @remarks Rank of nodes without outgoing links is distributed evenly over all nodes
+ */
+function computePageRank({ ids, outgoing, incoming }: IndexedGraph): number[] {
+	const n = ids.length;
+	let ranks = new Array<number>(n).fill(1 / n);
+
+	for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+		let danglingRank = 0;
+		for (let i = 0; i < n; i++) {
+			if (!outgoing[i]!.length) danglingRank += ranks[i]!;
+		}
+
+		const base = (1 - PAGERANK_DAMPING) / n + PAGERANK_DAMPING * danglingRank / n;
+		const next = new Array<number>(n);
+		let delta = 0;
+		for (let i = 0; i < n; i++) {
+			let rank = base;
+			for (const j of incoming[i]!) {
+				rank += PAGERANK_DAMPING * ranks[j]! / outgoing[j]!.length;
+			}
+			next[i] = rank;
+			delta += Math.abs(rank - ranks[i]!);
+		}
+
+		ranks = next;
+		if (delta < PAGERANK_TOLERANCE) break;
+	}
+
+	return ranks;
+}
+
+/**
+ * Compute the normalized betweenness centrality of every node, following the directed links
+ * @remarks Uses Brandes' algorithm, which runs in O(nodes * links)
+ */
+function computeBetweenness({ ids, outgoing }: IndexedGraph): number[] {
+	const n = ids.length;
+	const betweenness = new Array<number>(n).fill(0);
+
+	for (let source = 0; source < n; source++) {
+		const stack: number[] = [];
+		const predecessors: number[][] = ids.map(() => []);
+		const paths = new Array<number>(n).fill(0);
+		const distance = new Array<number>(n).fill(-1);
+		paths[source] = 1;
+		distance[source] = 0;
+
+		const queue = [source];
+		for (let head = 0; head < queue.length; head++) {
+			const v = queue[head]!;
+			stack.push(v);
+			for (const w of outgoing[v]!) {
+				if (distance[w] === -1) {
+					distance[w] = distance[v]! + 1;
+					queue.push(w);
+				}
+				if (distance[w] === distance[v]! + 1) {
+					paths[w] = paths[w]! + paths[v]!;
+					predecessors[w]!.push(v);
+				}
+			}
+		}
+
+		const dependency = new Array<number>(n).fill(0);
+		while (stack.length) {
+			const w = stack.pop()!;
+			for (const v of predecessors[w]!) {
+				dependency[v] = dependency[v]! + paths[v]! / paths[w]! * (1 + dependency[w]!);
+			}
+			if (w !== source) betweenness[w] = betweenness[w]! + dependency[w]!;
+		}
+	}
+
+	const normalization = n > 2 ? (n - 1) * (n - 2) : 1;
+	return betweenness.map(value => value / normalization);
+}
+
+/**
+ * Assign every node to a community using the Louvain method, links are treated as undirected
+ * @remarks Nodes are visited in a fixed order, so the same sitemap always results in the same communities.
+ *   Communities are numbered by size, the largest community has id `0`.
+ */
+function computeCommunities({ ids, outgoing }: IndexedGraph): number[] {
+	// EXPL: A link in both directions between two pages counts as a stronger connection
+	let adjacency: Map<number, number>[] = ids.map(() => new Map());
+	for (const [i, targets] of outgoing.entries()) {
+		for (const j of targets) {
+			adjacency[i]!.set(j, (adjacency[i]!.get(j) ?? 0) + 1);
+			adjacency[j]!.set(i, (adjacency[j]!.get(i) ?? 0) + 1);
+		}
+	}
+
+	// EXPL: Maps every original node to its node in the current (aggregated) graph
+	let membership = ids.map((_, i) => i);
+
+	while (true) {
+		const n = adjacency.length;
+		const degree = adjacency.map(neighbours => [...neighbours.values()].reduce((a, b) => a + b, 0));
+		const totalWeight = degree.reduce((a, b) => a + b, 0);
+		if (!totalWeight) break;
+
+		const community = adjacency.map((_, i) => i);
+		const communityDegree = [...degree];
+
+		let improved = false;
+		let moved = true;
+		while (moved) {
+			moved = false;
+			for (let i = 0; i < n; i++) {
+				const current = community[i]!;
+				const links = new Map<number, number>();
+				for (const [j, weight] of adjacency[i]!) {
+					if (j === i) continue;
+					links.set(community[j]!, (links.get(community[j]!) ?? 0) + weight);
+				}
+
+				communityDegree[current] = communityDegree[current]! - degree[i]!;
+				let best = current;
+				let bestGain = (links.get(current) ?? 0) - communityDegree[current]! * degree[i]! / totalWeight;
+				for (const [candidate, weight] of links) {
+					const gain = weight - communityDegree[candidate]! * degree[i]! / totalWeight;
+					// EXPL: Nodes only move on a strict improvement, otherwise nodes could keep swapping between equal communities
+					if (gain > bestGain + LOUVAIN_EPSILON) {
+						best = candidate;
+						bestGain = gain;
+					}
+				}
+				communityDegree[best] = communityDegree[best]! + degree[i]!;
+
+				if (best !== current) {
+					community[i] = best;
+					moved = improved = true;
+				}
+			}
+		}
+
+		if (!improved) break;
+
+		// EXPL: Aggregate every community into a single node, and repeat on the smaller graph
+		const renumbered = new Map<number, number>();
+		for (const c of community) {
+			if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+		}
+		const aggregated: Map<number, number>[] = [...renumbered.keys()].map(() => new Map());
+		for (const [i, neighbours] of adjacency.entries()) {
+			const ci = renumbered.get(community[i]!)!;
+			for (const [j, weight] of neighbours) {
+				const cj = renumbered.get(community[j]!)!;
+				aggregated[ci]!.set(cj, (aggregated[ci]!.get(cj) ?? 0) + weight);
+			}
+		}
+
+		membership = membership.map(node => renumbered.get(community[node]!)!);
+		adjacency = aggregated;
+	}
+
+	const sizes = new Map<number, number>();
+	for (const c of membership) {
+		sizes.set(c, (sizes.get(c) ?? 0) + 1);
+	}
+	const order = new Map([...sizes.entries()]
+		.sort(([a, sizeA], [b, sizeB]) => sizeB - sizeA || a - b)
+		.map(([c], i) => [c, i]));
+
+	return membership.map(c => order.get(c)!);
+}
+
+/**
+ * Compute the structural metrics of every entry in the sitemap, and store them in the `metrics` field of the entry
+ * @remarks Links to entries that are not part of the sitemap are ignored
+ */
+export function computeSitemapMetrics(sitemap: Sitemap): Sitemap {
+	const graph = toIndexedGraph(sitemap);
+	if (!graph.ids.length) return sitemap;
+
+	const pageRank = computePageRank(graph);
+	const betweenness = computeBetweenness(graph);
+	const communities = computeCommunities(graph);
+
+	for (const [i, id] of graph.ids.entries()) {
+		sitemap[id]!.metrics = {
+			inDegree: graph.incoming[i]!.length,
+			outDegree: graph.outgoing[i]!.length,
+			pageRank: round(pageRank[i]!),
+			betweenness: round(betweenness[i]!),
+			community: communities[i]!,
+		} satisfies SitemapMetrics;
+	}
+
+	return sitemap;
+}
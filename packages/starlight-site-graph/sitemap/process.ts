@@ -1,4 +1,5 @@
 import { ensureLeadingPound, firstMatchingPattern } from './util';
+import { computeSitemapMetrics } from './metrics';
 import type { FullStarlightSiteGraphConfig, NodeStyle, RemoveOptional, Sitemap } from '../config';
 
 /**
@@ -35,5 +36,9 @@ export function processSitemap(sitemap: RemoveOptional<Sitemap>, options: FullSt
 		};
 	}
 
+	if (options.sitemapConfig.computeMetrics) {
+		computeSitemapMetrics(sitemap);
+	}
+
 	return sitemap;
 }
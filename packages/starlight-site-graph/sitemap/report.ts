@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { ReportConfig, RemoveOptional, Sitemap } from '../config';
+
+// EXPL: Prevents flooding the terminal on large websites, the full list is available in the report file
+const MAX_LOGGED_ITEMS = 20;
+
+export interface BrokenLink {
+	/** The link path of the page containing the link */
+	source: string;
+	/** The link path the link points to */
+	target: string;
+	/** The text of the link, if any */
+	text?: string | undefined;
+	/** The file the source page was generated from */
+	file: string;
+}
+
+export interface PageAnalysis {
+	/** Pages without any backlinks */
+	orphans: string[];
+	/** Pages without any outgoing links */
+	deadEnds: string[];
+}
+
+function formatFile(file: string) {
+	return path.relative(process.cwd(), file).replace(/\\/g, '/');
+}
+
+function formatList(title: string, items: string[]) {
+	const lines = items.slice(0, MAX_LOGGED_ITEMS).map(item => `  ${item}`);
+	if (items.length > MAX_LOGGED_ITEMS) {
+		lines.push(`  ...and ${items.length - MAX_LOGGED_ITEMS} more`);
+	}
+
+	return lines.length ? `${title}:\n${lines.join('\n')}` : title;
+}
+
+/**
+ * Format a human-readable summary of the broken links, used for logging
+ */
+export function formatBrokenLinksSummary(brokenLinks: BrokenLink[]) {
+	return formatList(
+		`Found ${brokenLinks.length} broken link${brokenLinks.length === 1 ? '' : 's'}`,
+		brokenLinks.map(link =>
+			`${link.source} -> ${link.target}` + (link.text ? ` ("${link.text}")` : '') + ` in ${formatFile(link.file)}`
+		),
+	);
+}
+
+function formatBrokenLinksMarkdown(brokenLinks: BrokenLink[]) {
+	const escape = (text: string) => text.replace(/\|/g, '\\|');
+	return [
+		'# Broken Links',
+		'',
+		`Found ${brokenLinks.length} broken link${brokenLinks.length === 1 ? '' : 's'}.`,
+		'',
+		'| Source | Target | Text | File |',
+		'| --- | --- | --- | --- |',
+		...brokenLinks.map(link =>
+			`| ${escape(link.source)} | ${escape(link.target)} | ${escape(link.text ?? '')} | ${escape(formatFile(link.file))} |`
+		),
+		'',
+	].join('\n');
+}
+
+/**
+ * Write the broken links report to the `sitegraph` folder of the output directory
+ * @returns The path of the written report, if any
+ */
+export async function writeBrokenLinksReport(
+	brokenLinks: BrokenLink[],
+	outputPath: string,
+	format: RemoveOptional<ReportConfig>['brokenLinksReport'],
+) {
+	if (format === 'none') return;
+
+	const reportPath = path.join(outputPath, 'sitegraph', format === 'json' ? 'broken-links.json' : 'broken-links.md');
+	const content = format === 'json'
+		? JSON.stringify(brokenLinks.map(link => ({ ...link, file: formatFile(link.file) })), null, 2)
+		: formatBrokenLinksMarkdown(brokenLinks);
+
+	await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+	await fs.promises.writeFile(reportPath, content);
+	return reportPath;
+}
+
+/**
+ * Find all orphan and dead-end pages in the sitemap
+ * @remarks Only existing, internal pages are considered, a link to any of the headings of a page counts as a backlink
+ */
+export function analyzeSitemap(sitemap: Sitemap): PageAnalysis {
+	const orphans: string[] = [];
+	const deadEnds: string[] = [];
+
+	const linkedPages = new Set<string>();
+	for (const entry of Object.values(sitemap)) {
+		if (entry.heading && entry.backlinks?.length) {
+			linkedPages.add(entry.heading.page);
+		}
+	}
+
+	for (const [linkPath, entry] of Object.entries(sitemap)) {
+		if (!entry.exists || entry.external || entry.heading || entry.folder) continue;
+
+		if (!entry.backlinks?.length && !linkedPages.has(linkPath)) {
+			orphans.push(linkPath);
+		}
+		if (!entry.links?.length) {
+			deadEnds.push(linkPath);
+		}
+	}
+
+	return { orphans: orphans.sort(), deadEnds: deadEnds.sort() };
+}
+
+/**
+ * Format a human-readable summary of the page analysis, used for logging
+ */
+export function formatPageAnalysisSummary(analysis: PageAnalysis) {
+	return [
+		formatList(`Found ${analysis.orphans.length} orphan page${analysis.orphans.length === 1 ? '' : 's'} (without backlinks)`, analysis.orphans),
+		formatList(`Found ${analysis.deadEnds.length} dead-end page${analysis.deadEnds.length === 1 ? '' : 's'} (without outgoing links)`, analysis.deadEnds),
+	].join('\n');
+}
+
+/**
+ * Write the page analysis to `sitegraph/report.json` in the output directory
+ * @returns The path of the written report
+ */
+export async function writePageAnalysisReport(analysis: PageAnalysis, outputPath: string) {
+	const reportPath = path.join(outputPath, 'sitegraph', 'report.json');
+	await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+	await fs.promises.writeFile(reportPath, JSON.stringify(analysis, null, 2));
+	return reportPath;
+}
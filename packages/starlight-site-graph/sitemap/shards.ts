@@ -0,0 +1,78 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getNeighbours, type PreparedGraphData } from './graph-data';
+import { safeDecodeURIComponent, setSlashes } from './util';
+
+/**
+ * Get the path of the shard containing the neighbourhood of a page, relative to the output directory
+ * @remarks The link path is hashed, so pages with special characters in their path map to valid file names,
+ *   the same path is generated regardless of trailing slashes, `index` suffixes or URL encoding
+ */
+export function getShardPath(linkPath: string) {
+	let key = setSlashes(safeDecodeURIComponent(linkPath), true, false);
+	if (key.endsWith('/index')) key = setSlashes(key.slice(0, -5), true, false);
+
+	// EXPL: cyrb53 hash, a 53-bit hash makes collisions unlikely even for very large websites
+	let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+	for (let i = 0; i < key.length; i++) {
+		const ch = key.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	const hash = (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+
+	return `sitegraph/shards/${hash}.json`;
+}
+
+/**
+ * Split the graph data into shards, one for every existing page, containing all nodes within `depth` links of the page
+ * @remarks Links and hierarchy links are followed in both directions, so a shard contains every node the graph can reach at that depth
+ */
+export function createGraphShards(graphData: PreparedGraphData, depth: number): Map<string, PreparedGraphData> {
+	const shards = new Map<string, PreparedGraphData>();
+	for (const [id, node] of Object.entries(graphData.nodes)) {
+		if (!node.exists || node.external || node.heading || node.folder) continue;
+
+		const visited = new Set([id]);
+		let frontier = [id];
+		for (let level = 0; level < depth && frontier.length; level++) {
+			const next: string[] = [];
+			for (const current of frontier) {
+				const entry = graphData.nodes[current];
+				for (const neighbour of entry ? getNeighbours(entry) : []) {
+					if (!visited.has(neighbour) && graphData.nodes[neighbour]) {
+						visited.add(neighbour);
+						next.push(neighbour);
+					}
+				}
+			}
+			frontier = next;
+		}
+
+		shards.set(id, {
+			...graphData,
+			nodes: Object.fromEntries([...visited].map(node => [node, graphData.nodes[node]!])),
+		});
+	}
+
+	return shards;
+}
+
+/**
+ * Write the shards of the graph data to `sitegraph/shards` in the output directory
+ * @returns The number of written shards
+ */
+export async function writeGraphShards(graphData: PreparedGraphData, depth: number, outputPath: string) {
+	const shards = createGraphShards(graphData, depth);
+
+	await fs.promises.rm(path.join(outputPath, 'sitegraph', 'shards'), { recursive: true, force: true });
+	await fs.promises.mkdir(path.join(outputPath, 'sitegraph', 'shards'), { recursive: true });
+	for (const [linkPath, shard] of shards) {
+		await fs.promises.writeFile(path.join(outputPath, getShardPath(linkPath)), JSON.stringify(shard));
+	}
+
+	return shards.size;
+}
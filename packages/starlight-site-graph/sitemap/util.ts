@@ -60,6 +60,26 @@ export function onlyTrailingSlash(path: string, add: boolean) {
 	return ensureTrailingSlash(stripLeadingSlash(path), add);
 }
 
+export function simplifySlug(fp: string, trailingSlash: boolean): string {
+	// EXPL: Only the page part of a heading link (`page#anchor`) should be simplified
+	const anchorIndex = fp.indexOf('#');
+	if (anchorIndex !== -1) {
+		return simplifySlug(fp.slice(0, anchorIndex), trailingSlash) + fp.slice(anchorIndex);
+	}
+
+	// TODO: Figure out why 'index' was added
+	return setSlashes(trimSuffix(fp, 'index'), true, trailingSlash);
+}
+
+export function endsWith(s: string, suffix: string): boolean {
+	return s === suffix || s.endsWith('/' + suffix);
+}
+
+export function trimSuffix(s: string, suffix: string): string {
+	if (endsWith(s, suffix)) s = s.slice(0, -suffix.length);
+	return s;
+}
+
 export function firstMatchingPattern(
 	text: string,
 	patterns: string | string[],
@@ -96,16 +116,30 @@ export async function* walk(dir: string): AsyncGenerator<string> {
 	}
 }
 
-export function extractMDLinkText(link: string): string {
-	const match = link.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
-	// Remove markdown formatting characters like *, _, `, ~
-	return match![1]!.replace(/[*_`~]/g, '').trim();
+/**
+ * Collapse all whitespace in a text, and shorten it to at most `maxLength` characters without cutting words in half
+ */
+export function summarizeText(text: string, maxLength: number): string {
+	text = text.replace(/\s+/g, ' ').trim();
+	if (text.length <= maxLength) return text;
+
+	const cut = text.slice(0, maxLength - 1);
+	const lastSpace = cut.lastIndexOf(' ');
+	return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '') + '…';
 }
 
 export function extractHTMLInnerText(tag: string) {
 	return tag.replace(/<[^>]*>/g, '').trim();
 }
 
+export function safeDecodeURIComponent(s: string) {
+	try {
+		return decodeURIComponent(s);
+	} catch {
+		return s;
+	}
+}
+
 export function getMostCommonItem<T>(arr: T[]): T | undefined {
 	if (arr.length === 0) return undefined;
 	const counts = new Map<T, number>();
@@ -114,3 +148,20 @@ export function getMostCommonItem<T>(arr: T[]): T | undefined {
 	}
 	return [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
 }
+
+/**
+ * Get the backlinks of a page, including backlinks to any of the headings of the page
+ * @param sitemap - The sitemap to get the backlinks from
+ * @param slug - The link path of the page
+ */
+export function getPageBacklinks(sitemap: Record<string, { backlinks?: string[], heading?: { page: string } }>, slug: string): string[] {
+	const backlinks = new Set(sitemap[slug]?.backlinks ?? []);
+	for (const entry of Object.values(sitemap)) {
+		if (entry.heading?.page === slug) {
+			for (const backlink of entry.backlinks ?? []) {
+				if (backlink !== slug) backlinks.add(backlink);
+			}
+		}
+	}
+	return [...backlinks];
+}
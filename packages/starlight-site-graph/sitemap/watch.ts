@@ -0,0 +1,70 @@
+import path from 'node:path';
+
+import type { ViteDevServer } from 'vite';
+import type { AstroIntegrationLogger } from 'astro';
+
+import type { SiteMapBuilder } from './build';
+import { ensureLeadingSlash, firstMatchingPattern } from './util';
+
+const MD_EXTENSIONS = ['.md', '.mdx', '.mdoc'];
+
+// EXPL: Editors often emit several events for a single save, so updates are batched
+const UPDATE_DEBOUNCE = 100;
+
+interface SitemapWatcherOptions {
+	builder: SiteMapBuilder;
+	contentRoot: string;
+	patterns: string[];
+	logger: AstroIntegrationLogger;
+	onUpdate: () => void;
+}
+
+/**
+ * Watch the content folder during `astro dev`, and incrementally update the sitemap builder
+ * whenever a Markdown file is added, changed or removed
+ */
+export function watchContentFolder(server: ViteDevServer, options: SitemapWatcherOptions) {
+	const { builder, contentRoot, patterns, logger, onUpdate } = options;
+	const pendingFiles = new Map<string, 'update' | 'remove'>();
+	let timeout: ReturnType<typeof setTimeout> | undefined;
+
+	async function flush() {
+		const files = [...pendingFiles.entries()];
+		pendingFiles.clear();
+
+		for (const [filePath, action] of files) {
+			try {
+				if (action === 'remove') {
+					builder.removeMDContent(filePath);
+				} else {
+					await builder.updateMDContent(filePath);
+				}
+			} catch (e) {
+				logger.warn(
+					`Failed to update sitemap for "${filePath}"\n` +
+					`  Cause: ${e instanceof Error ? e.message : String(e)}`
+				);
+			}
+		}
+
+		onUpdate();
+		logger.info(`Updated sitemap after changes to ${files.length} file${files.length === 1 ? '' : 's'}`);
+	}
+
+	function queue(filePath: string, action: 'update' | 'remove') {
+		if (!MD_EXTENSIONS.includes(path.extname(filePath))) return;
+
+		const relativePath = path.relative(contentRoot, filePath).replace(/\\/g, '/');
+		if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) return;
+		if (!firstMatchingPattern(ensureLeadingSlash(relativePath), patterns, false)) return;
+
+		pendingFiles.set(filePath, action);
+		clearTimeout(timeout);
+		timeout = setTimeout(flush, UPDATE_DEBOUNCE);
+	}
+
+	server.watcher.add(contentRoot);
+	server.watcher.on('add', filePath => queue(filePath, 'update'));
+	server.watcher.on('change', filePath => queue(filePath, 'update'));
+	server.watcher.on('unlink', filePath => queue(filePath, 'remove'));
+}